@@ -12,8 +12,11 @@ import Auth from "./pages/Auth";
 import JoinGym from "./pages/JoinGym";
 import SetGoal from "./pages/SetGoal";
 import Workout from "./pages/Workout";
+import History from "./pages/History";
+import Progress from "./pages/Progress";
 import OwnerDashboard from "./pages/OwnerDashboard";
 import Partners from "./pages/Partners";
+import Kiosk from "./pages/Kiosk";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -31,11 +34,14 @@ const App = () => (
             <Route path="/join-gym" element={<JoinGym />} />
             <Route path="/set-goal" element={<SetGoal />} />
             <Route path="/workout" element={<Workout />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/progress" element={<Progress />} />
             <Route path="/owner-dashboard" element={<OwnerDashboard />} />
             <Route path="/leaderboard" element={<Leaderboard />} />
             <Route path="/rewards" element={<Rewards />} />
             <Route path="/partners" element={<Partners />} />
             <Route path="/profile" element={<Profile />} />
+            <Route path="/kiosk/:gymId" element={<Kiosk />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { BodyProfile } from "@/lib/calories";
+import { toKg } from "@/lib/personalRecords";
+import { WeightUnit } from "@/lib/workouts";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const currentYear = new Date().getFullYear();
+
+const bodyProfileSchema = z.object({
+  weight_kg: z.number({ invalid_type_error: "Enter your body weight" }).min(25, "Weight looks too low").max(350, "Weight looks too high"),
+  birth_year: z
+    .number()
+    .int("Enter a full year")
+    .min(currentYear - 100, "Enter a valid birth year")
+    .max(currentYear - 13, "You must be at least 13")
+    .nullable(),
+  sex: z.enum(["female", "male"]).nullable(),
+});
+
+interface BodyProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile: BodyProfile | null;
+  onSaved: (profile: BodyProfile | null) => void;
+}
+
+export function BodyProfileDialog({ open, onOpenChange, profile, onSaved }: BodyProfileDialogProps) {
+  const { user } = useAuth();
+  const [weight, setWeight] = useState("");
+  const [unit, setUnit] = useState<WeightUnit>("kg");
+  const [birthYear, setBirthYear] = useState("");
+  const [sex, setSex] = useState("unspecified");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setWeight(profile ? String(profile.weight_kg) : "");
+    setUnit("kg");
+    setBirthYear(profile?.birth_year ? String(profile.birth_year) : "");
+    setSex(profile?.sex ?? "unspecified");
+    setErrors({});
+  }, [open, profile]);
+
+  const handleSave = async () => {
+    setErrors({});
+    const result = bodyProfileSchema.safeParse({
+      weight_kg: weight === "" ? undefined : Math.round(toKg(Number(weight), unit) * 10) / 10,
+      birth_year: birthYear === "" ? null : Number(birthYear),
+      sex: sex === "unspecified" ? null : sex,
+    });
+
+    if (!result.success) {
+      const newErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          newErrors[err.path[0] as string] = err.message;
+        }
+      });
+      setErrors(newErrors);
+      return;
+    }
+
+    if (!user) return;
+
+    setIsSaving(true);
+    const saved = result.data as BodyProfile;
+    const { error } = await supabase
+      .from("body_profiles")
+      .upsert({ ...saved, user_id: user.id }, { onConflict: "user_id" });
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Save body profile error:", error);
+      toast.error("Failed to save body profile");
+      return;
+    }
+
+    toast.success("Body profile saved");
+    onSaved(saved);
+    onOpenChange(false);
+  };
+
+  const handleClear = async () => {
+    if (!user) return;
+
+    setIsSaving(true);
+    const { error } = await supabase.from("body_profiles").delete().eq("user_id", user.id);
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Clear body profile error:", error);
+      toast.error("Failed to remove body profile");
+      return;
+    }
+
+    toast.success("Body profile removed");
+    onSaved(null);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Body Profile</DialogTitle>
+          <DialogDescription>
+            Used only to estimate the calories you burn. Only you can see these details.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="body-weight">Body weight</Label>
+            <div className="flex gap-2">
+              <Input
+                id="body-weight"
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="0.1"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                placeholder={unit === "kg" ? "e.g., 70" : "e.g., 155"}
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => setUnit(unit === "kg" ? "lb" : "kg")}
+                aria-label="Toggle weight unit"
+                className="w-14"
+              >
+                {unit}
+              </Button>
+            </div>
+            {errors.weight_kg && <p className="text-sm text-destructive">{errors.weight_kg}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="body-birth-year">Birth year</Label>
+              <Input
+                id="body-birth-year"
+                type="number"
+                inputMode="numeric"
+                value={birthYear}
+                onChange={(e) => setBirthYear(e.target.value)}
+                placeholder="Optional"
+              />
+              {errors.birth_year && <p className="text-sm text-destructive">{errors.birth_year}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Sex</Label>
+              <Select value={sex} onValueChange={setSex}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unspecified">Prefer not to say</SelectItem>
+                  <SelectItem value="female">Female</SelectItem>
+                  <SelectItem value="male">Male</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Weight alone gives a standard estimate. Adding birth year and sex adjusts it to your resting metabolism.
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {profile && (
+            <Button variant="ghost" onClick={handleClear} disabled={isSaving} className="text-destructive hover:text-destructive">
+              Remove
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
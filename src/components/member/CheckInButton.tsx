@@ -1,13 +1,101 @@
+import { useState } from "react";
 import { motion } from "framer-motion";
-import { QrCode } from "lucide-react";
+import { QrCode, Loader2, MapPinOff, AlertCircle, Clock } from "lucide-react";
+import { Scanner, IDetectedBarcode } from "@yudiel/react-qr-scanner";
 import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { CheckInRejection, CheckInRejectionReason, getCheckInRejectionMessage } from "@/lib/activityRules";
+import { toast } from "sonner";
+
+export interface CheckInResult {
+  check_in_id: string;
+  checked_in_at: string;
+  points_awarded: number;
+  total_points: number;
+  // Further check-ins today are still recorded, without points
+  point_check_ins_remaining_today: number;
+}
+
+type CheckInResponse = (CheckInResult & { status: "accepted" }) | CheckInRejection;
+
+const locationReasons: CheckInRejectionReason[] = ["location_required", "outside_geofence"];
+const limitReasons: CheckInRejectionReason[] = ["cooldown"];
+
+// Resolves to null when the browser has no geolocation or the member declines
+const getPosition = () =>
+  new Promise<GeolocationPosition | null>((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, () => resolve(null), {
+      enableHighAccuracy: true,
+      timeout: 10000,
+      maximumAge: 30000,
+    });
+  });
 
 interface CheckInButtonProps {
-  onCheckIn: () => void;
+  onCheckIn: (result: CheckInResult) => void;
   isCheckedIn?: boolean;
+  allowManual?: boolean;
+  requireLocation?: boolean;
 }
 
-export function CheckInButton({ onCheckIn, isCheckedIn }: CheckInButtonProps) {
+export function CheckInButton({ onCheckIn, isCheckedIn, allowManual, requireLocation }: CheckInButtonProps) {
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [rejection, setRejection] = useState<CheckInRejection | null>(null);
+
+  const submitCheckIn = async (source: "qr" | "manual", token?: string) => {
+    setIsSubmitting(true);
+    const position = requireLocation ? await getPosition() : null;
+    const { data, error } = await supabase.rpc("record_check_in", {
+      _source: source,
+      _token: token,
+      _latitude: position?.coords.latitude,
+      _longitude: position?.coords.longitude,
+      _accuracy: position?.coords.accuracy,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      console.error("Check-in error:", error);
+      toast.error(error.message || "Failed to check in");
+      return;
+    }
+
+    const response = data as unknown as CheckInResponse;
+    if (response.status === "rejected") {
+      setRejection(response);
+      return;
+    }
+
+    setRejection(null);
+    setIsScannerOpen(false);
+    onCheckIn(response);
+  };
+
+  const handleScan = (codes: IDetectedBarcode[]) => {
+    const token = codes[0]?.rawValue;
+    if (token && !isSubmitting) {
+      submitCheckIn("qr", token);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsScannerOpen(open);
+    setCameraError(null);
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, scale: 0.9 }}
@@ -19,13 +107,76 @@ export function CheckInButton({ onCheckIn, isCheckedIn }: CheckInButtonProps) {
         <div className="absolute inset-0 rounded-2xl bg-primary/30 animate-pulse-ring" />
       )}
       <Button
-        onClick={onCheckIn}
-        disabled={isCheckedIn}
+        onClick={() => handleOpenChange(true)}
+        disabled={isCheckedIn || isSubmitting}
+        variant={rejection && !isCheckedIn ? "destructive" : "default"}
         className="w-full h-14 rounded-2xl font-semibold gap-2 relative z-10 glow-button"
       >
-        <QrCode className="w-5 h-5" />
-        {isCheckedIn ? "Checked In" : "Check In"}
+        {isSubmitting ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : rejection && !isCheckedIn ? (
+          <MapPinOff className="w-5 h-5" />
+        ) : (
+          <QrCode className="w-5 h-5" />
+        )}
+        {isCheckedIn ? "Checked In" : rejection ? "Try Again" : "Check In"}
       </Button>
+
+      <Dialog open={isScannerOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Scan to check in</DialogTitle>
+            <DialogDescription>
+              Point your camera at the QR code displayed at the front desk.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="relative aspect-square rounded-2xl overflow-hidden bg-secondary">
+            {cameraError ? (
+              <div className="absolute inset-0 flex items-center justify-center p-6 text-center">
+                <p className="text-sm text-muted-foreground">{cameraError}</p>
+              </div>
+            ) : (
+              <Scanner
+                onScan={handleScan}
+                onError={() => setCameraError("Camera unavailable. Allow camera access to scan the check-in code.")}
+                paused={isSubmitting}
+                formats={["qr_code"]}
+                constraints={{ facingMode: "environment" }}
+              />
+            )}
+            {isSubmitting && (
+              <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            )}
+          </div>
+
+          {rejection && (
+            <div className="flex items-start gap-3 rounded-xl border border-destructive/30 bg-destructive/10 p-3">
+              {locationReasons.includes(rejection.reason) ? (
+                <MapPinOff className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+              ) : limitReasons.includes(rejection.reason) ? (
+                <Clock className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+              ) : (
+                <AlertCircle className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+              )}
+              <p className="text-sm text-destructive">{getCheckInRejectionMessage(rejection)}</p>
+            </div>
+          )}
+
+          {allowManual && (
+            <Button
+              variant="secondary"
+              onClick={() => submitCheckIn("manual")}
+              disabled={isSubmitting}
+              className="w-full rounded-xl"
+            >
+              Check in without scanning
+            </Button>
+          )}
+        </DialogContent>
+      </Dialog>
     </motion.div>
   );
 }
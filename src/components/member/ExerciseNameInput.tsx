@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { BookOpen } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { CatalogExercise, muscleGroupLabels, searchExerciseCatalog } from "@/lib/exerciseCatalog";
+
+interface ExerciseNameInputProps {
+  value: string;
+  linked: boolean;
+  catalog: CatalogExercise[];
+  onChange: (name: string) => void;
+  onSelect: (entry: CatalogExercise) => void;
+  className?: string;
+}
+
+// Free-text exercise name with catalog suggestions; picking one links the exercise to the entry
+export function ExerciseNameInput({ value, linked, catalog, onChange, onSelect, className }: ExerciseNameInputProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const matches = linked ? [] : searchExerciseCatalog(catalog, value);
+  const showMatches = isOpen && matches.length > 0;
+
+  const select = (entry: CatalogExercise) => {
+    onSelect(entry);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showMatches) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % matches.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + matches.length) % matches.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      select(matches[Math.min(highlighted, matches.length - 1)]);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Input
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Exercise name"
+        role="combobox"
+        aria-expanded={showMatches}
+        aria-autocomplete="list"
+        className={cn(linked && "pr-9", className)}
+      />
+      {linked && (
+        <BookOpen
+          className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground"
+          aria-label="From the exercise library"
+        />
+      )}
+
+      {showMatches && (
+        <ul role="listbox" className="absolute z-20 mt-1 w-full rounded-lg border border-border bg-popover p-1 shadow-lg">
+          {matches.map((entry, index) => (
+            <li
+              key={entry.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown fires before the input blurs and closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(entry);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "flex items-center justify-between gap-2 rounded-md px-3 py-2 text-sm cursor-pointer",
+                index === highlighted ? "bg-muted text-foreground" : "text-foreground/90"
+              )}
+            >
+              <span className="font-medium">{entry.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {entry.muscle_groups.map((group) => muscleGroupLabels[group]).join(", ")}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
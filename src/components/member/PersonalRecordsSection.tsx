@@ -0,0 +1,90 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Loader2, Medal } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { PersonalRecord, formatRecordValue, recordTypeLabels } from "@/lib/personalRecords";
+
+// Most-reps records are kept per weight; the profile only shows the heaviest weight's one
+function pickDisplayedRecords(records: PersonalRecord[]) {
+  const byKey = new Map<string, PersonalRecord>();
+  records.forEach((record) => {
+    const key = `${record.exercise_key}|${record.record_type}`;
+    const current = byKey.get(key);
+    if (!current || record.weight_kg > current.weight_kg) {
+      byKey.set(key, record);
+    }
+  });
+  return [...byKey.values()];
+}
+
+export function PersonalRecordsSection() {
+  const [records, setRecords] = useState<PersonalRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadRecords = async () => {
+      const { data, error } = await supabase
+        .from("personal_records")
+        .select("id, exercise_key, exercise_name, record_type, value, weight_kg, reps, display_unit, achieved_at")
+        .order("exercise_name");
+
+      if (error) {
+        console.error("Error loading personal records:", error);
+      }
+      setRecords((data || []) as PersonalRecord[]);
+      setIsLoading(false);
+    };
+
+    loadRecords();
+  }, []);
+
+  const exercises = pickDisplayedRecords(records).reduce<Record<string, PersonalRecord[]>>((groups, record) => {
+    (groups[record.exercise_key] ||= []).push(record);
+    return groups;
+  }, {});
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.17 }}
+      className="glass rounded-2xl overflow-hidden"
+    >
+      <div className="p-4 border-b border-border">
+        <h2 className="font-semibold text-foreground">Personal Records</h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-6">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : records.length === 0 ? (
+        <div className="p-6 text-center">
+          <Medal className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+          <p className="text-sm text-muted-foreground">
+            Log weights on your sets and your best lifts will show up here.
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y divide-border">
+          {Object.values(exercises).map((exerciseRecords) => (
+            <div key={exerciseRecords[0].exercise_key} className="p-4 space-y-2">
+              <p className="font-medium text-foreground">{exerciseRecords[0].exercise_name}</p>
+              {exerciseRecords.map((record) => (
+                <div key={record.id} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-muted-foreground">{recordTypeLabels[record.record_type]}</span>
+                  <span className="text-right">
+                    <span className="font-semibold text-primary">{formatRecordValue(record)}</span>
+                    <span className="text-xs text-muted-foreground ml-2">
+                      {new Date(record.achieved_at).toLocaleDateString()}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.section>
+  );
+}
@@ -0,0 +1,140 @@
+import { Copy, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { ExerciseSet, createSet } from "@/lib/workouts";
+
+const parseOptionalNumber = (value: string) => (value === "" ? null : Number(value));
+
+interface SetLogEditorProps {
+  sets: ExerciseSet[];
+  onChange: (sets: ExerciseSet[]) => void;
+}
+
+export function SetLogEditor({ sets, onChange }: SetLogEditorProps) {
+  const updateSet = (index: number, changes: Partial<ExerciseSet>) => {
+    onChange(sets.map((set, i) => (i === index ? { ...set, ...changes } : set)));
+  };
+
+  const duplicateSet = (index: number) => {
+    onChange([...sets.slice(0, index + 1), { ...sets[index], completed: false }, ...sets.slice(index + 1)]);
+  };
+
+  const removeSet = (index: number) => {
+    onChange(sets.filter((_, i) => i !== index));
+  };
+
+  // New sets start from the last one so a straight set only needs the checkbox ticked
+  const addSet = () => {
+    const last = sets[sets.length - 1];
+    onChange([...sets, last ? { ...last, warmup: false, completed: false } : createSet()]);
+  };
+
+  let workingSetNumber = 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[2rem_1fr_1fr_2.5rem_1fr_1.5rem_3.5rem] gap-1.5 items-center text-[10px] uppercase tracking-wide text-muted-foreground px-0.5">
+        <span className="text-center">Set</span>
+        <span>Reps</span>
+        <span>Weight</span>
+        <span className="text-center">Unit</span>
+        <span>RPE</span>
+        <span className="text-center">✓</span>
+        <span></span>
+      </div>
+
+      {sets.map((set, index) => {
+        if (!set.warmup) workingSetNumber++;
+
+        return (
+          <div
+            key={index}
+            className={cn(
+              "grid grid-cols-[2rem_1fr_1fr_2.5rem_1fr_1.5rem_3.5rem] gap-1.5 items-center rounded-lg",
+              set.completed && "bg-primary/5"
+            )}
+          >
+            <button
+              onClick={() => updateSet(index, { warmup: !set.warmup })}
+              aria-label={set.warmup ? "Mark as working set" : "Mark as warm-up set"}
+              className={cn(
+                "h-8 rounded-md text-xs font-semibold transition-colors",
+                set.warmup ? "bg-orange-400/20 text-orange-400" : "bg-muted text-foreground"
+              )}
+            >
+              {set.warmup ? "W" : workingSetNumber}
+            </button>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={set.reps || ""}
+              onChange={(e) => updateSet(index, { reps: parseInt(e.target.value) || 0 })}
+              aria-label="Reps"
+              className="h-8 px-2 bg-muted/50 border-border rounded-md"
+            />
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="0.5"
+              value={set.weight ?? ""}
+              onChange={(e) => updateSet(index, { weight: parseOptionalNumber(e.target.value) })}
+              aria-label="Weight"
+              placeholder="—"
+              className="h-8 px-2 bg-muted/50 border-border rounded-md"
+            />
+            <button
+              onClick={() => updateSet(index, { unit: set.unit === "kg" ? "lb" : "kg" })}
+              aria-label="Toggle weight unit"
+              className="h-8 rounded-md bg-muted text-xs font-medium text-muted-foreground"
+            >
+              {set.unit}
+            </button>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={1}
+              max={10}
+              step="0.5"
+              value={set.rpe ?? ""}
+              onChange={(e) => updateSet(index, { rpe: parseOptionalNumber(e.target.value) })}
+              aria-label="RPE"
+              placeholder="—"
+              className="h-8 px-2 bg-muted/50 border-border rounded-md"
+            />
+            <Checkbox
+              checked={set.completed}
+              onCheckedChange={(checked) => updateSet(index, { completed: checked === true })}
+              aria-label="Set completed"
+              className="mx-auto"
+            />
+            <div className="flex">
+              <button
+                onClick={() => duplicateSet(index)}
+                aria-label="Duplicate set"
+                className="w-7 h-8 flex items-center justify-center text-muted-foreground hover:text-foreground"
+              >
+                <Copy className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => removeSet(index)}
+                aria-label="Remove set"
+                className="w-7 h-8 flex items-center justify-center text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button variant="ghost" size="sm" onClick={addSet} className="w-full h-8 text-primary">
+        <Plus className="w-4 h-4 mr-1" />
+        Add Set
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState, useEffect } from "react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  Exercise,
+  TemplateExercise,
+  WorkoutTemplate,
+  fromTemplateExercises,
+  toTemplateExercises,
+  workoutTypes,
+} from "@/lib/workouts";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(80, "Name must be less than 80 characters"),
+  workout_type: z.enum(workoutTypes.map((type) => type.value) as [string, ...string[]], {
+    errorMap: () => ({ message: "Choose a workout type" }),
+  }),
+  exercises: z
+    .array(z.object({ name: z.string() }).passthrough())
+    .refine((exercises) => exercises.some((ex) => ex.name.trim()), "Add at least one exercise"),
+});
+
+export interface TemplateDraft {
+  name?: string;
+  workout_type: string;
+  exercises: TemplateExercise[];
+}
+
+interface TemplateEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing template to edit; otherwise a new one is created from the draft
+  template?: WorkoutTemplate | null;
+  draft?: TemplateDraft | null;
+  // Set when an owner publishes a template for every member of their gym
+  gymId?: string | null;
+  onSaved?: () => void;
+}
+
+export function TemplateEditorDialog({
+  open,
+  onOpenChange,
+  template,
+  draft,
+  gymId,
+  onSaved,
+}: TemplateEditorDialogProps) {
+  const { user } = useAuth();
+  const [name, setName] = useState("");
+  const [workoutType, setWorkoutType] = useState("");
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const source = template ?? draft;
+    setName(source?.name ?? "");
+    setWorkoutType(source?.workout_type ?? "");
+    setExercises(fromTemplateExercises(source?.exercises ?? [], "edit"));
+    setErrors({});
+  }, [open, template, draft]);
+
+  const handleAddExercise = () => {
+    setExercises([...exercises, { id: `edit-${Date.now()}`, name: "", sets: 3, reps: 10 }]);
+  };
+
+  const handleUpdateExercise = (id: string, field: keyof Exercise, value: string | number) => {
+    setExercises(exercises.map((ex) => (ex.id === id ? { ...ex, [field]: value } : ex)));
+  };
+
+  const handleSave = async () => {
+    setErrors({});
+    const result = templateSchema.safeParse({ name, workout_type: workoutType, exercises });
+
+    if (!result.success) {
+      const newErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          newErrors[err.path[0] as string] = err.message;
+        }
+      });
+      setErrors(newErrors);
+      return;
+    }
+
+    if (!user) return;
+
+    const payload = {
+      name: result.data.name,
+      workout_type: result.data.workout_type,
+      exercises: toTemplateExercises(exercises),
+    };
+
+    setIsSaving(true);
+
+    try {
+      const { error } = template
+        ? await supabase.from("workout_templates").update(payload).eq("id", template.id)
+        : await supabase.from("workout_templates").insert({ ...payload, user_id: user.id, gym_id: gymId ?? null });
+
+      if (error) throw error;
+
+      toast.success(template ? "Template updated" : `Saved "${payload.name}" as a template`);
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error("Save template error:", error);
+      toast.error("Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Template" : "Save as Template"}</DialogTitle>
+          <DialogDescription>
+            {gymId
+              ? "Gym templates appear for every member when they start a workout."
+              : "Start future workouts from this routine in one tap."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Monday Push Day"
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Workout Type</Label>
+            <Select value={workoutType} onValueChange={setWorkoutType}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select workout type" />
+              </SelectTrigger>
+              <SelectContent>
+                {workoutTypes.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.workout_type && <p className="text-sm text-destructive">{errors.workout_type}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Exercises</Label>
+              <Button variant="ghost" size="sm" onClick={handleAddExercise} className="text-primary">
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+            {exercises.map((exercise) => (
+              <div key={exercise.id} className="flex items-center gap-2">
+                <Input
+                  value={exercise.name}
+                  onChange={(e) => handleUpdateExercise(exercise.id, "name", e.target.value)}
+                  placeholder="Exercise name"
+                  className="flex-1"
+                />
+                {exercise.duration !== undefined ? (
+                  <Input
+                    type="number"
+                    value={exercise.duration || ""}
+                    onChange={(e) => handleUpdateExercise(exercise.id, "duration", parseInt(e.target.value) || 0)}
+                    aria-label="Duration (min)"
+                    placeholder="min"
+                    className="w-20"
+                  />
+                ) : (
+                  <>
+                    <Input
+                      type="number"
+                      value={exercise.sets || ""}
+                      onChange={(e) => handleUpdateExercise(exercise.id, "sets", parseInt(e.target.value) || 0)}
+                      aria-label="Sets"
+                      placeholder="sets"
+                      className="w-16"
+                    />
+                    <Input
+                      type="number"
+                      value={exercise.reps || ""}
+                      onChange={(e) => handleUpdateExercise(exercise.id, "reps", parseInt(e.target.value) || 0)}
+                      aria-label="Reps"
+                      placeholder="reps"
+                      className="w-16"
+                    />
+                  </>
+                )}
+                <button
+                  onClick={() => setExercises(exercises.filter((ex) => ex.id !== exercise.id))}
+                  className="w-9 h-9 shrink-0 rounded-lg bg-destructive/10 flex items-center justify-center hover:bg-destructive/20 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </button>
+              </div>
+            ))}
+            {errors.exercises && <p className="text-sm text-destructive">{errors.exercises}</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : template ? "Save Changes" : "Save Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
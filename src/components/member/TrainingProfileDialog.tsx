@@ -0,0 +1,172 @@
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { cn } from "@/lib/utils";
+import {
+  ExperienceLevel,
+  TrainingGoal,
+  TrainingProfile,
+  experienceLevelLabels,
+  trainingGoalLabels,
+} from "@/lib/suggestions";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const trainingProfileSchema = z.object({
+  experience_level: z.enum(["beginner", "intermediate", "advanced"]),
+  goals: z.array(z.enum(["strength", "muscle", "endurance", "weight_loss", "mobility", "general_fitness"])),
+  injuries: z.string().trim().max(300, "Keep it under 300 characters"),
+});
+
+interface TrainingProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile: TrainingProfile | null;
+  onSaved: (profile: TrainingProfile) => void;
+}
+
+export function TrainingProfileDialog({ open, onOpenChange, profile, onSaved }: TrainingProfileDialogProps) {
+  const { user } = useAuth();
+  const [experienceLevel, setExperienceLevel] = useState<ExperienceLevel>("beginner");
+  const [goals, setGoals] = useState<TrainingGoal[]>([]);
+  const [injuries, setInjuries] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setExperienceLevel(profile?.experience_level ?? "beginner");
+    setGoals(profile?.goals ?? []);
+    setInjuries(profile?.injuries ?? "");
+    setErrors({});
+  }, [open, profile]);
+
+  const toggleGoal = (goal: TrainingGoal) => {
+    setGoals(goals.includes(goal) ? goals.filter((g) => g !== goal) : [...goals, goal]);
+  };
+
+  const handleSave = async () => {
+    setErrors({});
+    const result = trainingProfileSchema.safeParse({ experience_level: experienceLevel, goals, injuries });
+
+    if (!result.success) {
+      const newErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          newErrors[err.path[0] as string] = err.message;
+        }
+      });
+      setErrors(newErrors);
+      return;
+    }
+
+    if (!user) return;
+
+    setIsSaving(true);
+    const saved: TrainingProfile = {
+      experience_level: experienceLevel,
+      goals,
+      injuries: result.data.injuries || null,
+    };
+    const { error } = await supabase
+      .from("training_profiles")
+      .upsert({ ...saved, user_id: user.id }, { onConflict: "user_id" });
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Save training profile error:", error);
+      toast.error("Failed to save training profile");
+      return;
+    }
+
+    toast.success("Training profile saved");
+    onSaved(saved);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Training Profile</DialogTitle>
+          <DialogDescription>
+            Shapes the exercises suggested when you start a workout. Only you can see these details.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Experience level</Label>
+            <Select value={experienceLevel} onValueChange={(value) => setExperienceLevel(value as ExperienceLevel)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(experienceLevelLabels) as ExperienceLevel[]).map((level) => (
+                  <SelectItem key={level} value={level}>
+                    {experienceLevelLabels[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Goals</Label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(trainingGoalLabels) as TrainingGoal[]).map((goal) => (
+                <button
+                  key={goal}
+                  type="button"
+                  aria-pressed={goals.includes(goal)}
+                  onClick={() => toggleGoal(goal)}
+                  className={cn(
+                    "h-8 px-3 rounded-lg text-xs font-medium transition-colors",
+                    goals.includes(goal)
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {trainingGoalLabels[goal]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="training-injuries">Injuries or limitations</Label>
+            <Textarea
+              id="training-injuries"
+              value={injuries}
+              onChange={(e) => setInjuries(e.target.value)}
+              placeholder="Optional, e.g. sore left knee, avoid jumping"
+              maxLength={300}
+              rows={3}
+            />
+            {errors.injuries && <p className="text-sm text-destructive">{errors.injuries}</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,47 @@
+import { QRCodeSVG } from "qrcode.react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface Voucher {
+  voucher_code: string;
+  reward_name: string;
+  points_cost: number;
+}
+
+interface VoucherDialogProps {
+  voucher: Voucher | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function VoucherDialog({ voucher, onOpenChange }: VoucherDialogProps) {
+  return (
+    <Dialog open={voucher !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{voucher?.reward_name}</DialogTitle>
+          <DialogDescription>
+            Show this voucher at the front desk to collect your reward.
+          </DialogDescription>
+        </DialogHeader>
+        {voucher && (
+          <div className="flex flex-col items-center gap-4 py-2">
+            <div className="bg-white p-4 rounded-2xl">
+              <QRCodeSVG value={voucher.voucher_code} size={180} />
+            </div>
+            <p className="text-3xl font-bold tracking-[0.3em] text-foreground">
+              {voucher.voucher_code}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {voucher.points_cost.toLocaleString()} points redeemed
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
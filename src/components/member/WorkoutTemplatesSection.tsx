@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Building2, ClipboardList, Loader2, Pencil, Play, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { WorkoutTemplate, getWorkoutType } from "@/lib/workouts";
+import { TemplateEditorDialog } from "@/components/member/TemplateEditorDialog";
+import { toast } from "sonner";
+
+// Personal templates can be edited and deleted here; gym templates are read-only for members
+export function WorkoutTemplatesSection() {
+  const navigate = useNavigate();
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingTemplate, setEditingTemplate] = useState<WorkoutTemplate | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("workout_templates")
+      .select("id, user_id, gym_id, name, workout_type, exercises, updated_at")
+      .order("name");
+
+    if (error) {
+      console.error("Error loading templates:", error);
+    }
+    setTemplates((data || []) as unknown as WorkoutTemplate[]);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleDelete = async (template: WorkoutTemplate) => {
+    const { error } = await supabase.from("workout_templates").delete().eq("id", template.id);
+
+    if (error) {
+      console.error("Delete template error:", error);
+      toast.error("Failed to delete template");
+      return;
+    }
+
+    toast.success("Template deleted");
+    loadTemplates();
+  };
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.18 }}
+      className="glass rounded-2xl overflow-hidden"
+    >
+      <div className="p-4 border-b border-border">
+        <h2 className="font-semibold text-foreground">Workout Templates</h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-6">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="p-6 text-center">
+          <ClipboardList className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+          <p className="text-sm text-muted-foreground">
+            No templates yet. Save a workout as a template to reuse it.
+          </p>
+        </div>
+      ) : (
+        <div className="p-2">
+          {templates.map((template) => {
+            const type = getWorkoutType(template.workout_type);
+            const isGymTemplate = template.gym_id !== null;
+
+            return (
+              <div key={template.id} className="flex items-center gap-3 p-2 rounded-xl">
+                <div className={cn("w-10 h-10 rounded-xl bg-secondary flex items-center justify-center", type.color)}>
+                  <type.icon className="w-5 h-5" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground truncate">{template.name}</p>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    {isGymTemplate && <Building2 className="w-3 h-3" />}
+                    {isGymTemplate ? "Gym template · " : ""}
+                    {template.exercises.length} exercise{template.exercises.length !== 1 ? "s" : ""}
+                  </p>
+                </div>
+                <button
+                  onClick={() => navigate(`/workout?template=${template.id}`)}
+                  className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center hover:bg-primary/20 transition-colors"
+                  aria-label={`Start ${template.name}`}
+                >
+                  <Play className="w-4 h-4 text-primary" />
+                </button>
+                {!isGymTemplate && (
+                  <>
+                    <button
+                      onClick={() => setEditingTemplate(template)}
+                      className="w-8 h-8 rounded-lg bg-secondary flex items-center justify-center hover:bg-secondary/80 transition-colors"
+                      aria-label={`Edit ${template.name}`}
+                    >
+                      <Pencil className="w-4 h-4 text-muted-foreground" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template)}
+                      className="w-8 h-8 rounded-lg bg-destructive/10 flex items-center justify-center hover:bg-destructive/20 transition-colors"
+                      aria-label={`Delete ${template.name}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <TemplateEditorDialog
+        open={editingTemplate !== null}
+        onOpenChange={(open) => !open && setEditingTemplate(null)}
+        template={editingTemplate}
+        onSaved={loadTemplates}
+      />
+    </motion.section>
+  );
+}
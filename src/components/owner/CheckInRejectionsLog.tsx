@@ -0,0 +1,106 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, ShieldAlert } from "lucide-react";
+
+interface Rejection {
+  id: string;
+  user_id: string;
+  source: string;
+  reason: string;
+  distance_m: number | null;
+  accuracy_m: number | null;
+  created_at: string;
+}
+
+const reasonLabels: Record<string, string> = {
+  invalid_token: "Invalid or expired QR code",
+  manual_disabled: "Manual check-in disabled",
+  location_required: "Location not shared",
+  outside_geofence: "Outside check-in radius",
+  cooldown: "Too soon after last check-in",
+};
+
+interface CheckInRejectionsLogProps {
+  gymId: string;
+  memberNames: Record<string, string>;
+}
+
+export function CheckInRejectionsLog({ gymId, memberNames }: CheckInRejectionsLogProps) {
+  const [rejections, setRejections] = useState<Rejection[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const loadRejections = async () => {
+      setIsLoading(true);
+
+      const { data, error } = await supabase
+        .from("check_in_rejections")
+        .select("id, user_id, source, reason, distance_m, accuracy_m, created_at")
+        .eq("gym_id", gymId)
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (error) {
+        console.error("Error loading check-in rejections:", error);
+      }
+      setRejections(data || []);
+      setIsLoading(false);
+    };
+
+    loadRejections();
+  }, [gymId]);
+
+  return (
+    <div className="bg-card border border-border rounded-3xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-foreground">Rejected Check-ins</h2>
+        <span className="text-sm text-muted-foreground">Last 50 attempts</span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : rejections.length === 0 ? (
+        <div className="text-center py-12">
+          <ShieldAlert className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">No rejected check-ins.</p>
+        </div>
+      ) : (
+        <div className="rounded-xl border border-border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">Member</TableHead>
+                <TableHead className="font-semibold">Reason</TableHead>
+                <TableHead className="font-semibold">Method</TableHead>
+                <TableHead className="font-semibold">Distance</TableHead>
+                <TableHead className="font-semibold">When</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rejections.map((rejection) => (
+                <TableRow key={rejection.id}>
+                  <TableCell className="font-medium">{memberNames[rejection.user_id] || "Unknown"}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {reasonLabels[rejection.reason] || rejection.reason}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground capitalize">{rejection.source}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {rejection.distance_m !== null
+                      ? `${rejection.distance_m.toLocaleString()} m${rejection.accuracy_m !== null ? ` (±${Math.round(rejection.accuracy_m)} m)` : ""}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {new Date(rejection.created_at).toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect } from "react";
+import { KeyRound, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const pinSchema = z
+  .object({
+    pin: z.string().regex(/^[0-9]{4,8}$/, "Use 4 to 8 digits"),
+    confirm: z.string(),
+  })
+  .refine((values) => values.pin === values.confirm, {
+    message: "PINs do not match",
+    path: ["confirm"],
+  });
+
+interface KioskPinButtonProps {
+  gymId: string;
+}
+
+// Owners and staff unlock the front desk panel on the kiosk with their own PIN
+export function KioskPinButton({ gymId }: KioskPinButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [hasPin, setHasPin] = useState<boolean | null>(null);
+  const [pin, setPin] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadPinStatus = async () => {
+      const { data, error } = await supabase.rpc("has_kiosk_pin", { _gym_id: gymId });
+      if (error) {
+        console.error("Error loading desk PIN status:", error);
+        return;
+      }
+      setHasPin(Boolean(data));
+    };
+
+    loadPinStatus();
+  }, [gymId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setPin("");
+    setConfirm("");
+    setErrors({});
+  }, [open]);
+
+  const handleSave = async () => {
+    setErrors({});
+    const result = pinSchema.safeParse({ pin, confirm });
+
+    if (!result.success) {
+      const newErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          newErrors[err.path[0] as string] = err.message;
+        }
+      });
+      setErrors(newErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await supabase.rpc("set_kiosk_pin", { _gym_id: gymId, _pin: result.data.pin });
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Set desk PIN error:", error);
+      toast.error(error.message || "Failed to save PIN");
+      return;
+    }
+
+    toast.success("Front desk PIN saved");
+    setHasPin(true);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} className="w-full rounded-xl gap-2">
+        <KeyRound className="w-4 h-4" />
+        {hasPin ? "Change Front Desk PIN" : "Set Front Desk PIN"}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Front Desk PIN</DialogTitle>
+            <DialogDescription>
+              Enter this PIN on the kiosk to open the front desk panel. Keep it to yourself.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="kiosk_pin">PIN</Label>
+              <Input
+                id="kiosk_pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={8}
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                className={errors.pin ? "border-destructive" : ""}
+              />
+              {errors.pin && <p className="text-sm text-destructive">{errors.pin}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kiosk_pin_confirm">Confirm PIN</Label>
+              <Input
+                id="kiosk_pin_confirm"
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={8}
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                className={errors.confirm ? "border-destructive" : ""}
+              />
+              {errors.confirm && <p className="text-sm text-destructive">{errors.confirm}</p>}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Save PIN
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
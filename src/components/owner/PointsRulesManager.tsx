@@ -0,0 +1,266 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PointsRules, defaultPointsRules, describeEarningRules, fetchPointsRules } from "@/lib/pointsRules";
+import { workoutTypes } from "@/lib/workouts";
+import { toast } from "sonner";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+import { z } from "zod";
+
+const wholeNumber = (label: string, max: number) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} is required` })
+    .int(`${label} must be a whole number`)
+    .min(0, `${label} cannot be negative`)
+    .max(max, `${label} must be at most ${max.toLocaleString()}`);
+
+const optionalCap = (label: string) =>
+  z.literal("").or(z.coerce.number().int(`${label} must be a whole number`).min(1, `${label} must be at least 1`).max(100000));
+
+const pointsRulesSchema = z.object({
+  check_in_points: wholeNumber("Visit points", 1000),
+  points_per_calorie: z.coerce
+    .number({ invalid_type_error: "Points per calorie is required" })
+    .min(0, "Points per calorie cannot be negative")
+    .max(10, "At most 10 points per calorie"),
+  workout_type_multipliers: z.record(
+    z.coerce.number({ invalid_type_error: "Enter a multiplier" }).min(0, "Cannot be negative").max(5, "At most 5×")
+  ),
+  goal_bonus_points: wholeNumber("Goal bonus", 10000),
+  streak_bonus_points: wholeNumber("Streak bonus", 10000),
+  streak_bonus_min_weeks: z.coerce
+    .number()
+    .int("Weeks must be a whole number")
+    .min(1, "At least 1 week")
+    .max(52, "At most 52 weeks"),
+  max_workout_points: optionalCap("Workout cap"),
+  max_daily_points: optionalCap("Daily cap"),
+});
+
+type FormData = Record<Exclude<keyof PointsRules, "workout_type_multipliers">, string> & {
+  workout_type_multipliers: Record<string, string>;
+};
+
+const toFormData = (rules: PointsRules): FormData => ({
+  check_in_points: String(rules.check_in_points),
+  points_per_calorie: String(rules.points_per_calorie),
+  workout_type_multipliers: Object.fromEntries(
+    workoutTypes.map((type) => [type.value, String(rules.workout_type_multipliers[type.value] ?? 1)])
+  ),
+  goal_bonus_points: String(rules.goal_bonus_points),
+  streak_bonus_points: String(rules.streak_bonus_points),
+  streak_bonus_min_weeks: String(rules.streak_bonus_min_weeks),
+  max_workout_points: rules.max_workout_points === null ? "" : String(rules.max_workout_points),
+  max_daily_points: rules.max_daily_points === null ? "" : String(rules.max_daily_points),
+});
+
+interface PointsRulesManagerProps {
+  gymId: string;
+}
+
+export function PointsRulesManager({ gymId }: PointsRulesManagerProps) {
+  const [formData, setFormData] = useState<FormData>(toFormData(defaultPointsRules));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setFormData(toFormData(await fetchPointsRules(gymId)));
+    } catch (error) {
+      console.error("Error loading points rules:", error);
+      toast.error("Failed to load points rules");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gymId]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const parsed = pointsRulesSchema.safeParse(formData);
+
+  // Multipliers of 1 are the default, so only the ones that change something are stored
+  const toRules = (values: z.infer<typeof pointsRulesSchema>): PointsRules => ({
+    check_in_points: values.check_in_points,
+    points_per_calorie: values.points_per_calorie,
+    goal_bonus_points: values.goal_bonus_points,
+    streak_bonus_points: values.streak_bonus_points,
+    streak_bonus_min_weeks: values.streak_bonus_min_weeks,
+    workout_type_multipliers: Object.fromEntries(
+      Object.entries(values.workout_type_multipliers).filter(([, multiplier]) => multiplier !== 1)
+    ),
+    max_workout_points: values.max_workout_points === "" ? null : values.max_workout_points,
+    max_daily_points: values.max_daily_points === "" ? null : values.max_daily_points,
+  });
+
+  const handleSave = async () => {
+    setErrors({});
+
+    if (!parsed.success) {
+      const newErrors: Record<string, string> = {};
+      parsed.error.errors.forEach((err) => {
+        // Multiplier errors are keyed by workout type so each input can show its own
+        const key = err.path[0] === "workout_type_multipliers" ? `multiplier_${String(err.path[1])}` : err.path[0];
+        if (key) {
+          newErrors[key as string] = err.message;
+        }
+      });
+      setErrors(newErrors);
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from("gym_points_rules")
+        .upsert({ ...toRules(parsed.data), gym_id: gymId }, { onConflict: "gym_id" });
+
+      if (error) throw error;
+
+      toast.success("Points rules saved");
+    } catch (error) {
+      console.error("Save points rules error:", error);
+      toast.error("Failed to save points rules");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = (field: string) =>
+    `h-11 bg-background border-border rounded-xl ${errors[field] ? "border-destructive" : ""}`;
+
+  const field = (key: Exclude<keyof FormData, "workout_type_multipliers">, label: string, props: React.ComponentProps<typeof Input> = {}) => (
+    <div className="space-y-2">
+      <Label htmlFor={`points_${key}`} className="text-foreground">{label}</Label>
+      <Input
+        id={`points_${key}`}
+        type="number"
+        min={0}
+        value={formData[key]}
+        onChange={(e) => setFormData(prev => ({ ...prev, [key]: e.target.value }))}
+        className={inputClass(key)}
+        {...props}
+      />
+      {errors[key] && <p className="text-sm text-destructive">{errors[key]}</p>}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-muted/30 rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-foreground">Visits & Workouts</h3>
+        <div className="grid gap-4 md:grid-cols-2">
+          {field("check_in_points", "Points per Visit")}
+          {field("points_per_calorie", "Points per Calorie Burned", { step: "0.01" })}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-foreground">Workout Type Multipliers</Label>
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-3">
+            {workoutTypes.map((type) => (
+              <div key={type.value} className="space-y-1">
+                <Label htmlFor={`multiplier_${type.value}`} className="text-xs text-muted-foreground flex items-center gap-1">
+                  <type.icon className={`w-3 h-3 ${type.color}`} />
+                  {type.label}
+                </Label>
+                <Input
+                  id={`multiplier_${type.value}`}
+                  type="number"
+                  min={0}
+                  max={5}
+                  step="0.1"
+                  value={formData.workout_type_multipliers[type.value]}
+                  onChange={(e) =>
+                    setFormData(prev => ({
+                      ...prev,
+                      workout_type_multipliers: { ...prev.workout_type_multipliers, [type.value]: e.target.value },
+                    }))
+                  }
+                  className={inputClass(`multiplier_${type.value}`)}
+                />
+                {errors[`multiplier_${type.value}`] && (
+                  <p className="text-sm text-destructive">{errors[`multiplier_${type.value}`]}</p>
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Workout points are calories × points per calorie × the multiplier for the workout type.
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-muted/30 rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-foreground">Weekly Bonuses</h3>
+        <div className="grid gap-4 md:grid-cols-3">
+          {field("goal_bonus_points", "Weekly Goal Bonus")}
+          {field("streak_bonus_points", "Streak Bonus")}
+          {field("streak_bonus_min_weeks", "Streak Bonus From (weeks)", { min: 1, max: 52 })}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Bonuses are paid when each week closes. The streak bonus starts once a member has hit their goal this many weeks in a row.
+        </p>
+      </div>
+
+      <div className="bg-muted/30 rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-foreground">Caps</h3>
+        <div className="grid gap-4 md:grid-cols-2">
+          {field("max_workout_points", "Max Points per Workout", { min: 1, placeholder: "No limit" })}
+          {field("max_daily_points", "Max Points per Day", { min: 1, placeholder: "No limit" })}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The daily cap covers visits and workouts in your gym's timezone. Leave empty for no limit.
+        </p>
+      </div>
+
+      {parsed.success && (
+        <div className="rounded-2xl border border-border p-6">
+          <h3 className="text-sm font-semibold text-foreground mb-3">Members will see</h3>
+          <ul className="space-y-2 text-sm text-muted-foreground">
+            {describeEarningRules(toRules(parsed.data)).map((rule) => (
+              <li key={rule.key} className="flex items-center gap-2">
+                <span className="text-primary">•</span>
+                <span><strong className="text-foreground">{rule.points}</strong> {rule.description}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          variant="secondary"
+          onClick={() => setFormData(toFormData(defaultPointsRules))}
+          className="h-12 rounded-xl gap-2"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset to Defaults
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving} className="flex-1 h-12 rounded-xl font-semibold gap-2">
+          {isSaving ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <>
+              <Save className="w-5 h-5" />
+              Save Points Rules
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Check, Loader2, RotateCcw, Search, Ticket, X } from "lucide-react";
+
+type RedemptionStatus = "pending" | "fulfilled" | "cancelled" | "refunded";
+
+interface Redemption {
+  id: string;
+  user_id: string;
+  reward_name: string;
+  points_cost: number;
+  voucher_code: string;
+  status: string;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+const statusFilters: { value: RedemptionStatus | "all"; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "fulfilled", label: "Fulfilled" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "refunded", label: "Refunded" },
+  { value: "all", label: "All" },
+];
+
+const statusStyles: Record<string, string> = {
+  pending: "bg-primary/10 text-primary",
+  fulfilled: "bg-chart-2/10 text-chart-2",
+  cancelled: "bg-muted text-muted-foreground",
+  refunded: "bg-destructive/10 text-destructive",
+};
+
+interface RedemptionsQueueProps {
+  gymId: string;
+}
+
+export function RedemptionsQueue({ gymId }: RedemptionsQueueProps) {
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [memberNames, setMemberNames] = useState<Record<string, string>>({});
+  const [statusFilter, setStatusFilter] = useState<RedemptionStatus | "all">("pending");
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadRedemptions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      let query = supabase
+        .from("reward_redemptions")
+        .select("id, user_id, reward_name, points_cost, voucher_code, status, created_at, resolved_at")
+        .eq("gym_id", gymId)
+        .order("created_at", { ascending: statusFilter === "pending" })
+        .limit(100);
+
+      if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const userIds = [...new Set((data || []).map((r) => r.user_id))];
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from("profiles").select("user_id, name").in("user_id", userIds)
+        : { data: [] };
+
+      setMemberNames(Object.fromEntries((profiles || []).map((p) => [p.user_id, p.name])));
+      setRedemptions(data || []);
+    } catch (error) {
+      console.error("Error loading redemptions:", error);
+      toast.error("Failed to load redemptions");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gymId, statusFilter]);
+
+  useEffect(() => {
+    loadRedemptions();
+  }, [loadRedemptions]);
+
+  const handleResolve = async (redemption: Redemption, status: Exclude<RedemptionStatus, "pending">) => {
+    setResolvingId(redemption.id);
+
+    const { error } = await supabase.rpc("resolve_redemption", {
+      _redemption_id: redemption.id,
+      _status: status,
+    });
+
+    setResolvingId(null);
+
+    if (error) {
+      toast.error(error.message || "Failed to update redemption");
+      return;
+    }
+
+    toast.success(
+      status === "fulfilled"
+        ? `${redemption.reward_name} handed over`
+        : status === "refunded"
+          ? `${redemption.points_cost.toLocaleString()} points returned`
+          : "Voucher cancelled"
+    );
+    loadRedemptions();
+  };
+
+  const searchTerm = search.trim().toUpperCase();
+  const visibleRedemptions = searchTerm
+    ? redemptions.filter(
+        (r) =>
+          r.voucher_code.includes(searchTerm) ||
+          (memberNames[r.user_id] || "").toUpperCase().includes(searchTerm)
+      )
+    : redemptions;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-muted-foreground absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            placeholder="Search voucher code or member"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-11 pl-9 bg-background border-border rounded-xl"
+          />
+        </div>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => setStatusFilter(value as RedemptionStatus | "all")}
+        >
+          <SelectTrigger className="h-11 md:w-48 bg-background border-border rounded-xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {statusFilters.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : visibleRedemptions.length === 0 ? (
+        <div className="text-center py-12">
+          <Ticket className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">No redemptions found.</p>
+        </div>
+      ) : (
+        <div className="rounded-xl border border-border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">Voucher</TableHead>
+                <TableHead className="font-semibold">Member</TableHead>
+                <TableHead className="font-semibold">Reward</TableHead>
+                <TableHead className="font-semibold">Points</TableHead>
+                <TableHead className="font-semibold">Redeemed</TableHead>
+                <TableHead className="font-semibold">Status</TableHead>
+                <TableHead className="font-semibold"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRedemptions.map((redemption) => (
+                <TableRow key={redemption.id}>
+                  <TableCell className="font-mono font-semibold tracking-wider">{redemption.voucher_code}</TableCell>
+                  <TableCell>{memberNames[redemption.user_id] || "Unknown"}</TableCell>
+                  <TableCell className="text-muted-foreground">{redemption.reward_name}</TableCell>
+                  <TableCell className="font-medium text-primary">{redemption.points_cost.toLocaleString()}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {new Date(redemption.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-1 rounded-lg text-sm font-medium capitalize ${statusStyles[redemption.status] || ""}`}>
+                      {redemption.status}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {resolvingId === redemption.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                    ) : (
+                      <div className="flex gap-1 justify-end">
+                        {redemption.status === "pending" && (
+                          <>
+                            <Button
+                              size="sm"
+                              onClick={() => handleResolve(redemption, "fulfilled")}
+                              className="h-8 rounded-lg gap-1"
+                            >
+                              <Check className="w-4 h-4" />
+                              Fulfil
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleResolve(redemption, "cancelled")}
+                              className="h-8 rounded-lg gap-1 text-muted-foreground"
+                            >
+                              <X className="w-4 h-4" />
+                              Cancel
+                            </Button>
+                          </>
+                        )}
+                        {(redemption.status === "pending" || redemption.status === "fulfilled") && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleResolve(redemption, "refunded")}
+                            className="h-8 rounded-lg gap-1 text-muted-foreground hover:text-destructive"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                            Refund
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
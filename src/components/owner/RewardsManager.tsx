@@ -0,0 +1,454 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Gift, Loader2, Pencil, Plus, Save, Trash2, X } from "lucide-react";
+import { z } from "zod";
+
+const rewardSchema = z
+  .object({
+    name: z.string().trim().min(2, "Reward name is required").max(100),
+    category: z.string().trim().min(2, "Category is required").max(50),
+    icon: z.string().trim().min(1, "Icon is required").max(8, "Use a single emoji"),
+    description: z.string().trim().max(500, "Description must be less than 500 characters"),
+    image_url: z.string().trim().url("Invalid image URL").max(500).or(z.literal("")),
+    points_cost: z.coerce
+      .number({ invalid_type_error: "Points cost is required" })
+      .int("Points cost must be a whole number")
+      .min(1, "Points cost must be at least 1")
+      .max(1000000),
+    stock: z
+      .literal("")
+      .or(z.coerce.number().int("Stock must be a whole number").min(0, "Stock cannot be negative")),
+    starts_at: z.string(),
+    ends_at: z.string(),
+    is_active: z.boolean(),
+  })
+  .refine((reward) => !reward.starts_at || !reward.ends_at || reward.ends_at > reward.starts_at, {
+    message: "End must be after start",
+    path: ["ends_at"],
+  });
+
+interface Reward {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  icon: string;
+  image_url: string | null;
+  points_cost: number;
+  stock: number | null;
+  is_active: boolean;
+  starts_at: string | null;
+  ends_at: string | null;
+}
+
+const emptyForm = {
+  name: "",
+  category: "",
+  icon: "🎁",
+  description: "",
+  image_url: "",
+  points_cost: "",
+  stock: "",
+  starts_at: "",
+  ends_at: "",
+  is_active: true,
+};
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInput = (timestamp: string | null) => {
+  if (!timestamp) return "";
+  const date = new Date(timestamp);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const formatWindow = (reward: Reward) => {
+  if (!reward.starts_at && !reward.ends_at) return "Always";
+  const from = reward.starts_at ? new Date(reward.starts_at).toLocaleDateString() : "Now";
+  const until = reward.ends_at ? new Date(reward.ends_at).toLocaleDateString() : "No end";
+  return `${from} – ${until}`;
+};
+
+interface RewardsManagerProps {
+  gymId: string;
+}
+
+export function RewardsManager({ gymId }: RewardsManagerProps) {
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const loadRewards = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("rewards")
+        .select("*")
+        .eq("gym_id", gymId)
+        .order("points_cost", { ascending: true });
+
+      if (error) throw error;
+      setRewards(data || []);
+    } catch (error) {
+      console.error("Error loading rewards:", error);
+      toast.error("Failed to load rewards");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gymId]);
+
+  useEffect(() => {
+    loadRewards();
+  }, [loadRewards]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setErrors({});
+  };
+
+  const handleEdit = (reward: Reward) => {
+    setEditingId(reward.id);
+    setErrors({});
+    setFormData({
+      name: reward.name,
+      category: reward.category,
+      icon: reward.icon,
+      description: reward.description,
+      image_url: reward.image_url || "",
+      points_cost: String(reward.points_cost),
+      stock: reward.stock === null ? "" : String(reward.stock),
+      starts_at: toLocalInput(reward.starts_at),
+      ends_at: toLocalInput(reward.ends_at),
+      is_active: reward.is_active,
+    });
+  };
+
+  const handleSave = async () => {
+    setErrors({});
+    const result = rewardSchema.safeParse(formData);
+
+    if (!result.success) {
+      const newErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          newErrors[err.path[0] as string] = err.message;
+        }
+      });
+      setErrors(newErrors);
+      return;
+    }
+
+    const values = result.data;
+    const payload = {
+      name: values.name,
+      category: values.category,
+      icon: values.icon,
+      description: values.description,
+      image_url: values.image_url || null,
+      points_cost: values.points_cost,
+      stock: values.stock === "" ? null : values.stock,
+      starts_at: values.starts_at ? new Date(values.starts_at).toISOString() : null,
+      ends_at: values.ends_at ? new Date(values.ends_at).toISOString() : null,
+      is_active: values.is_active,
+    };
+
+    setIsSaving(true);
+
+    try {
+      const { error } = editingId
+        ? await supabase.from("rewards").update(payload).eq("id", editingId)
+        : await supabase.from("rewards").insert({ ...payload, gym_id: gymId });
+
+      if (error) throw error;
+
+      toast.success(editingId ? "Reward updated" : "Reward added successfully!");
+      resetForm();
+      loadRewards();
+    } catch (error) {
+      console.error("Save reward error:", error);
+      toast.error("Failed to save reward");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (reward: Reward) => {
+    try {
+      const { error } = await supabase
+        .from("rewards")
+        .update({ is_active: !reward.is_active })
+        .eq("id", reward.id);
+
+      if (error) throw error;
+      loadRewards();
+    } catch (error) {
+      console.error("Toggle reward error:", error);
+      toast.error("Failed to update reward");
+    }
+  };
+
+  const handleDelete = async (rewardId: string) => {
+    try {
+      const { error } = await supabase
+        .from("rewards")
+        .delete()
+        .eq("id", rewardId);
+
+      if (error) throw error;
+
+      toast.success("Reward deleted");
+      if (editingId === rewardId) resetForm();
+      loadRewards();
+    } catch (error) {
+      console.error("Delete reward error:", error);
+      toast.error("Failed to delete reward");
+    }
+  };
+
+  const inputClass = (field: string) =>
+    `h-11 bg-background border-border rounded-xl ${errors[field] ? "border-destructive" : ""}`;
+
+  return (
+    <div className="space-y-8">
+      {/* Reward Form */}
+      <div className="bg-muted/30 rounded-2xl p-6">
+        <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+          {editingId ? <Pencil className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+          {editingId ? "Edit Reward" : "Add New Reward"}
+        </h3>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="reward_name" className="text-foreground">Name *</Label>
+            <Input
+              id="reward_name"
+              placeholder="Free Protein Shake"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              className={inputClass("name")}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reward_category" className="text-foreground">Category *</Label>
+            <Input
+              id="reward_category"
+              placeholder="Food & Drinks"
+              value={formData.category}
+              onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
+              className={inputClass("category")}
+            />
+            {errors.category && <p className="text-sm text-destructive">{errors.category}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reward_points_cost" className="text-foreground">Points Cost *</Label>
+            <Input
+              id="reward_points_cost"
+              type="number"
+              min={1}
+              placeholder="500"
+              value={formData.points_cost}
+              onChange={(e) => setFormData(prev => ({ ...prev, points_cost: e.target.value }))}
+              className={inputClass("points_cost")}
+            />
+            {errors.points_cost && <p className="text-sm text-destructive">{errors.points_cost}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reward_stock" className="text-foreground">Stock</Label>
+            <Input
+              id="reward_stock"
+              type="number"
+              min={0}
+              placeholder="Leave empty for unlimited"
+              value={formData.stock}
+              onChange={(e) => setFormData(prev => ({ ...prev, stock: e.target.value }))}
+              className={inputClass("stock")}
+            />
+            {errors.stock && <p className="text-sm text-destructive">{errors.stock}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reward_icon" className="text-foreground">Icon *</Label>
+            <Input
+              id="reward_icon"
+              placeholder="🥤"
+              value={formData.icon}
+              onChange={(e) => setFormData(prev => ({ ...prev, icon: e.target.value }))}
+              className={inputClass("icon")}
+            />
+            {errors.icon && <p className="text-sm text-destructive">{errors.icon}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reward_image_url" className="text-foreground">Image URL</Label>
+            <Input
+              id="reward_image_url"
+              type="url"
+              placeholder="https://example.com/shake.jpg"
+              value={formData.image_url}
+              onChange={(e) => setFormData(prev => ({ ...prev, image_url: e.target.value }))}
+              className={inputClass("image_url")}
+            />
+            {errors.image_url && <p className="text-sm text-destructive">{errors.image_url}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reward_starts_at" className="text-foreground">Available From</Label>
+            <Input
+              id="reward_starts_at"
+              type="datetime-local"
+              value={formData.starts_at}
+              onChange={(e) => setFormData(prev => ({ ...prev, starts_at: e.target.value }))}
+              className={inputClass("starts_at")}
+            />
+            {errors.starts_at && <p className="text-sm text-destructive">{errors.starts_at}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reward_ends_at" className="text-foreground">Available Until</Label>
+            <Input
+              id="reward_ends_at"
+              type="datetime-local"
+              value={formData.ends_at}
+              onChange={(e) => setFormData(prev => ({ ...prev, ends_at: e.target.value }))}
+              className={inputClass("ends_at")}
+            />
+            {errors.ends_at && <p className="text-sm text-destructive">{errors.ends_at}</p>}
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="reward_description" className="text-foreground">Description</Label>
+            <Textarea
+              id="reward_description"
+              placeholder="Redeem for any protein shake at the juice bar"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              className={`bg-background border-border rounded-xl ${errors.description ? "border-destructive" : ""}`}
+            />
+            {errors.description && <p className="text-sm text-destructive">{errors.description}</p>}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch
+              id="reward_is_active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+            />
+            <Label htmlFor="reward_is_active" className="text-foreground">Visible to members</Label>
+          </div>
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <Button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="h-11 rounded-xl font-semibold gap-2"
+          >
+            {isSaving ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : editingId ? (
+              <>
+                <Save className="w-5 h-5" />
+                Save Reward
+              </>
+            ) : (
+              <>
+                <Plus className="w-5 h-5" />
+                Add Reward
+              </>
+            )}
+          </Button>
+          {editingId && (
+            <Button variant="ghost" onClick={resetForm} className="h-11 rounded-xl gap-2">
+              <X className="w-5 h-5" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Rewards List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : rewards.length === 0 ? (
+        <div className="text-center py-12">
+          <Gift className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">No rewards added yet.</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Add your first reward using the form above.
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-xl border border-border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">Reward</TableHead>
+                <TableHead className="font-semibold">Category</TableHead>
+                <TableHead className="font-semibold">Cost</TableHead>
+                <TableHead className="font-semibold">Stock</TableHead>
+                <TableHead className="font-semibold">Available</TableHead>
+                <TableHead className="font-semibold">Active</TableHead>
+                <TableHead className="font-semibold w-24"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rewards.map((reward) => (
+                <TableRow key={reward.id}>
+                  <TableCell className="font-medium">
+                    <span className="mr-2">{reward.icon}</span>
+                    {reward.name}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{reward.category}</TableCell>
+                  <TableCell className="font-medium text-primary">{reward.points_cost.toLocaleString()}</TableCell>
+                  <TableCell className="text-muted-foreground">{reward.stock ?? "∞"}</TableCell>
+                  <TableCell className="text-muted-foreground">{formatWindow(reward)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={reward.is_active}
+                      onCheckedChange={() => handleToggleActive(reward)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleEdit(reward)}
+                        className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(reward.id)}
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
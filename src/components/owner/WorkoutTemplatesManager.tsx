@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TemplateDraft, TemplateEditorDialog } from "@/components/member/TemplateEditorDialog";
+import { WorkoutTemplate, getWorkoutType } from "@/lib/workouts";
+import { toast } from "sonner";
+import { ClipboardList, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+const emptyDraft: TemplateDraft = { workout_type: "weights", exercises: [] };
+
+interface WorkoutTemplatesManagerProps {
+  gymId: string;
+}
+
+export function WorkoutTemplatesManager({ gymId }: WorkoutTemplatesManagerProps) {
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<WorkoutTemplate | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("workout_templates")
+        .select("id, user_id, gym_id, name, workout_type, exercises, updated_at")
+        .eq("gym_id", gymId)
+        .order("name");
+
+      if (error) throw error;
+      setTemplates((data || []) as unknown as WorkoutTemplate[]);
+    } catch (error) {
+      console.error("Error loading templates:", error);
+      toast.error("Failed to load templates");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gymId]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleOpenEditor = (template: WorkoutTemplate | null) => {
+    setEditingTemplate(template);
+    setIsEditorOpen(true);
+  };
+
+  const handleDelete = async (templateId: string) => {
+    try {
+      const { error } = await supabase
+        .from("workout_templates")
+        .delete()
+        .eq("id", templateId);
+
+      if (error) throw error;
+
+      toast.success("Template deleted");
+      loadTemplates();
+    } catch (error) {
+      console.error("Delete template error:", error);
+      toast.error("Failed to delete template");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-muted-foreground">
+          Templates published here appear for every member when they start a workout.
+        </p>
+        <Button onClick={() => handleOpenEditor(null)} className="h-11 rounded-xl gap-2 shrink-0">
+          <Plus className="w-4 h-4" />
+          New Template
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="text-center py-12">
+          <ClipboardList className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">No gym templates yet.</p>
+        </div>
+      ) : (
+        <div className="rounded-xl border border-border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">Name</TableHead>
+                <TableHead className="font-semibold">Type</TableHead>
+                <TableHead className="font-semibold">Exercises</TableHead>
+                <TableHead className="font-semibold">Updated</TableHead>
+                <TableHead className="font-semibold"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell className="font-medium">{template.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{getWorkoutType(template.workout_type).label}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {template.exercises.map((ex) => ex.name).join(", ")}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {new Date(template.updated_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1 justify-end">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleOpenEditor(template)}
+                        className="h-8 w-8"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleDelete(template.id)}
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <TemplateEditorDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        template={editingTemplate}
+        draft={emptyDraft}
+        gymId={gymId}
+        onSaved={loadTemplates}
+      />
+    </div>
+  );
+}
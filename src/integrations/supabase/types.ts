@@ -14,39 +14,516 @@ export type Database = {
   }
   public: {
     Tables: {
+      body_profiles: {
+        Row: {
+          birth_year: number | null
+          created_at: string
+          id: string
+          sex: string | null
+          updated_at: string
+          user_id: string
+          weight_kg: number
+        }
+        Insert: {
+          birth_year?: number | null
+          created_at?: string
+          id?: string
+          sex?: string | null
+          updated_at?: string
+          user_id: string
+          weight_kg: number
+        }
+        Update: {
+          birth_year?: number | null
+          created_at?: string
+          id?: string
+          sex?: string | null
+          updated_at?: string
+          user_id?: string
+          weight_kg?: number
+        }
+        Relationships: []
+      }
+      check_in_rejections: {
+        Row: {
+          accuracy_m: number | null
+          created_at: string
+          distance_m: number | null
+          gym_id: string
+          id: string
+          latitude: number | null
+          longitude: number | null
+          reason: string
+          source: string
+          user_id: string
+        }
+        Insert: {
+          accuracy_m?: number | null
+          created_at?: string
+          distance_m?: number | null
+          gym_id: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          reason: string
+          source: string
+          user_id: string
+        }
+        Update: {
+          accuracy_m?: number | null
+          created_at?: string
+          distance_m?: number | null
+          gym_id?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          reason?: string
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_in_rejections_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      check_ins: {
+        Row: {
+          created_at: string
+          gym_id: string
+          id: string
+          points_awarded: number
+          source: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          gym_id: string
+          id?: string
+          points_awarded?: number
+          source?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          gym_id?: string
+          id?: string
+          points_awarded?: number
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_ins_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exercises: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          default_duration_minutes: number | null
+          default_reps: number | null
+          default_sets: number | null
+          equipment: string[]
+          id: string
+          met: number
+          modality: string
+          muscle_groups: string[]
+          name: string
+          tracking: string
+          updated_at: string
+          workout_types: string[]
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          default_duration_minutes?: number | null
+          default_reps?: number | null
+          default_sets?: number | null
+          equipment?: string[]
+          id?: string
+          met: number
+          modality: string
+          muscle_groups?: string[]
+          name: string
+          tracking: string
+          updated_at?: string
+          workout_types?: string[]
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          default_duration_minutes?: number | null
+          default_reps?: number | null
+          default_sets?: number | null
+          equipment?: string[]
+          id?: string
+          met?: number
+          modality?: string
+          muscle_groups?: string[]
+          name?: string
+          tracking?: string
+          updated_at?: string
+          workout_types?: string[]
+        }
+        Relationships: []
+      }
+      gym_points_rules: {
+        Row: {
+          check_in_points: number
+          created_at: string
+          goal_bonus_points: number
+          gym_id: string
+          id: string
+          max_daily_points: number | null
+          max_workout_points: number | null
+          points_per_calorie: number
+          streak_bonus_min_weeks: number
+          streak_bonus_points: number
+          updated_at: string
+          workout_type_multipliers: Json
+        }
+        Insert: {
+          check_in_points?: number
+          created_at?: string
+          goal_bonus_points?: number
+          gym_id: string
+          id?: string
+          max_daily_points?: number | null
+          max_workout_points?: number | null
+          points_per_calorie?: number
+          streak_bonus_min_weeks?: number
+          streak_bonus_points?: number
+          updated_at?: string
+          workout_type_multipliers?: Json
+        }
+        Update: {
+          check_in_points?: number
+          created_at?: string
+          goal_bonus_points?: number
+          gym_id?: string
+          id?: string
+          max_daily_points?: number | null
+          max_workout_points?: number | null
+          points_per_calorie?: number
+          streak_bonus_min_weeks?: number
+          streak_bonus_points?: number
+          updated_at?: string
+          workout_type_multipliers?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gym_points_rules_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: true
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gym_secrets: {
+        Row: {
+          created_at: string
+          gym_id: string
+          kiosk_failed_unlocks: number
+          kiosk_locked_until: string | null
+          qr_secret: string
+        }
+        Insert: {
+          created_at?: string
+          gym_id: string
+          kiosk_failed_unlocks?: number
+          kiosk_locked_until?: string | null
+          qr_secret?: string
+        }
+        Update: {
+          created_at?: string
+          gym_id?: string
+          kiosk_failed_unlocks?: number
+          kiosk_locked_until?: string | null
+          qr_secret?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gym_secrets_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: true
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gym_staff: {
+        Row: {
+          created_at: string
+          gym_id: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          gym_id: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          gym_id?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gym_staff_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       gyms: {
         Row: {
+          allow_manual_check_in: boolean
+          check_in_cooldown_minutes: number
+          check_in_radius_m: number
           city: string | null
           created_at: string
+          equipment: string[] | null
           id: string
+          latitude: number | null
           logo_url: string | null
+          longitude: number | null
+          max_daily_check_ins: number
+          max_workout_minutes: number
           name: string
           owner_id: string
           tagline: string | null
+          timezone: string
           updated_at: string
+          week_start: number
         }
         Insert: {
+          allow_manual_check_in?: boolean
+          check_in_cooldown_minutes?: number
+          check_in_radius_m?: number
           city?: string | null
           created_at?: string
+          equipment?: string[] | null
           id?: string
+          latitude?: number | null
           logo_url?: string | null
+          longitude?: number | null
+          max_daily_check_ins?: number
+          max_workout_minutes?: number
           name: string
           owner_id: string
           tagline?: string | null
+          timezone?: string
           updated_at?: string
+          week_start?: number
         }
         Update: {
+          allow_manual_check_in?: boolean
+          check_in_cooldown_minutes?: number
+          check_in_radius_m?: number
           city?: string | null
           created_at?: string
+          equipment?: string[] | null
           id?: string
+          latitude?: number | null
           logo_url?: string | null
+          longitude?: number | null
+          max_daily_check_ins?: number
+          max_workout_minutes?: number
           name?: string
           owner_id?: string
           tagline?: string | null
+          timezone?: string
           updated_at?: string
+          week_start?: number
         }
         Relationships: []
       }
+      kiosk_operator_pins: {
+        Row: {
+          created_at: string
+          gym_id: string
+          id: string
+          pin_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          gym_id: string
+          id?: string
+          pin_hash: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          gym_id?: string
+          id?: string
+          pin_hash?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kiosk_operator_pins_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kiosk_sessions: {
+        Row: {
+          created_at: string
+          device_user_id: string
+          gym_id: string
+          id: string
+          last_active_at: string
+          operator_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_user_id: string
+          gym_id: string
+          id?: string
+          last_active_at?: string
+          operator_id: string
+        }
+        Update: {
+          created_at?: string
+          device_user_id?: string
+          gym_id?: string
+          id?: string
+          last_active_at?: string
+          operator_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kiosk_sessions_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leaderboard_winners: {
+        Row: {
+          created_at: string
+          gym_id: string
+          id: string
+          name: string
+          period: string
+          period_start: string
+          points: number
+          rank: number
+          user_id: string
+          visits: number
+        }
+        Insert: {
+          created_at?: string
+          gym_id: string
+          id?: string
+          name: string
+          period: string
+          period_start: string
+          points: number
+          rank: number
+          user_id: string
+          visits: number
+        }
+        Update: {
+          created_at?: string
+          gym_id?: string
+          id?: string
+          name?: string
+          period?: string
+          period_start?: string
+          points?: number
+          rank?: number
+          user_id?: string
+          visits?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leaderboard_winners_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      member_weeks: {
+        Row: {
+          created_at: string
+          goal: number | null
+          goal_bonus_points: number
+          goal_met: boolean
+          gym_id: string
+          id: string
+          points_earned: number
+          streak: number
+          streak_bonus_points: number
+          user_id: string
+          visits: number
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          goal?: number | null
+          goal_bonus_points?: number
+          goal_met?: boolean
+          gym_id: string
+          id?: string
+          points_earned?: number
+          streak?: number
+          streak_bonus_points?: number
+          user_id: string
+          visits?: number
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          goal?: number | null
+          goal_bonus_points?: number
+          goal_met?: boolean
+          gym_id?: string
+          id?: string
+          points_earned?: number
+          streak?: number
+          streak_bonus_points?: number
+          user_id?: string
+          visits?: number
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "member_weeks_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       partners: {
         Row: {
           city: string
@@ -94,6 +571,103 @@ export type Database = {
           },
         ]
       }
+      personal_records: {
+        Row: {
+          achieved_at: string
+          created_at: string
+          display_unit: string | null
+          exercise_key: string
+          exercise_name: string
+          id: string
+          record_type: string
+          reps: number | null
+          updated_at: string
+          user_id: string
+          value: number
+          weight_kg: number
+          workout_id: string | null
+        }
+        Insert: {
+          achieved_at?: string
+          created_at?: string
+          display_unit?: string | null
+          exercise_key: string
+          exercise_name: string
+          id?: string
+          record_type: string
+          reps?: number | null
+          updated_at?: string
+          user_id: string
+          value: number
+          weight_kg?: number
+          workout_id?: string | null
+        }
+        Update: {
+          achieved_at?: string
+          created_at?: string
+          display_unit?: string | null
+          exercise_key?: string
+          exercise_name?: string
+          id?: string
+          record_type?: string
+          reps?: number | null
+          updated_at?: string
+          user_id?: string
+          value?: number
+          weight_kg?: number
+          workout_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "personal_records_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      points_transactions: {
+        Row: {
+          created_at: string
+          delta: number
+          gym_id: string | null
+          id: string
+          reason: string
+          source_id: string | null
+          source_table: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          delta: number
+          gym_id?: string | null
+          id?: string
+          reason: string
+          source_id?: string | null
+          source_table?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          delta?: number
+          gym_id?: string | null
+          id?: string
+          reason?: string
+          source_id?: string | null
+          source_table?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "points_transactions_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -104,6 +678,7 @@ export type Database = {
           total_points: number
           updated_at: string
           user_id: string
+          weekly_goal: number | null
         }
         Insert: {
           created_at?: string
@@ -114,6 +689,7 @@ export type Database = {
           total_points?: number
           updated_at?: string
           user_id: string
+          weekly_goal?: number | null
         }
         Update: {
           created_at?: string
@@ -124,6 +700,7 @@ export type Database = {
           total_points?: number
           updated_at?: string
           user_id?: string
+          weekly_goal?: number | null
         }
         Relationships: [
           {
@@ -135,6 +712,155 @@ export type Database = {
           },
         ]
       }
+      reward_redemptions: {
+        Row: {
+          created_at: string
+          gym_id: string
+          id: string
+          points_cost: number
+          resolved_at: string | null
+          resolved_by: string | null
+          reward_id: string | null
+          reward_name: string
+          status: string
+          updated_at: string
+          user_id: string
+          voucher_code: string
+        }
+        Insert: {
+          created_at?: string
+          gym_id: string
+          id?: string
+          points_cost: number
+          resolved_at?: string | null
+          resolved_by?: string | null
+          reward_id?: string | null
+          reward_name: string
+          status?: string
+          updated_at?: string
+          user_id: string
+          voucher_code: string
+        }
+        Update: {
+          created_at?: string
+          gym_id?: string
+          id?: string
+          points_cost?: number
+          resolved_at?: string | null
+          resolved_by?: string | null
+          reward_id?: string | null
+          reward_name?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+          voucher_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reward_redemptions_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reward_redemptions_reward_id_fkey"
+            columns: ["reward_id"]
+            isOneToOne: false
+            referencedRelation: "rewards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rewards: {
+        Row: {
+          category: string
+          created_at: string
+          description: string
+          ends_at: string | null
+          gym_id: string
+          icon: string
+          id: string
+          image_url: string | null
+          is_active: boolean
+          name: string
+          points_cost: number
+          starts_at: string | null
+          stock: number | null
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          description?: string
+          ends_at?: string | null
+          gym_id: string
+          icon?: string
+          id?: string
+          image_url?: string | null
+          is_active?: boolean
+          name: string
+          points_cost: number
+          starts_at?: string | null
+          stock?: number | null
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          description?: string
+          ends_at?: string | null
+          gym_id?: string
+          icon?: string
+          id?: string
+          image_url?: string | null
+          is_active?: boolean
+          name?: string
+          points_cost?: number
+          starts_at?: string | null
+          stock?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rewards_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_profiles: {
+        Row: {
+          created_at: string
+          experience_level: string
+          goals: string[]
+          id: string
+          injuries: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          experience_level?: string
+          goals?: string[]
+          id?: string
+          injuries?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          experience_level?: string
+          goals?: string[]
+          id?: string
+          injuries?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -156,6 +882,68 @@ export type Database = {
         }
         Relationships: []
       }
+      weekly_goals: {
+        Row: {
+          created_at: string
+          goal: number
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          goal: number
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          goal?: number
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      workout_templates: {
+        Row: {
+          created_at: string
+          exercises: Json
+          gym_id: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+          workout_type: string
+        }
+        Insert: {
+          created_at?: string
+          exercises?: Json
+          gym_id?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+          workout_type: string
+        }
+        Update: {
+          created_at?: string
+          exercises?: Json
+          gym_id?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+          workout_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_templates_gym_id_fkey"
+            columns: ["gym_id"]
+            isOneToOne: false
+            referencedRelation: "gyms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workouts: {
         Row: {
           calories_burned: number
@@ -205,7 +993,45 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      get_check_in_qr_token: { Args: { _gym_id: string }; Returns: Json }
+      get_kiosk_leaders: {
+        Args: { _gym_id: string; _limit?: number }
+        Returns: {
+          name: string
+          points: number
+          rank: number
+          visits: number
+        }[]
+      }
+      get_leaderboard: {
+        Args: { _limit?: number; _period?: string; _scope?: string }
+        Returns: {
+          gym_id: string
+          gym_name: string
+          is_current_user: boolean
+          member_count: number
+          name: string
+          points: number
+          rank: number
+          user_id: string
+          visits: number
+        }[]
+      }
+      get_my_streak: { Args: never; Returns: number }
+      get_my_week_progress: { Args: never; Returns: Json }
+      get_my_weekly_progress: {
+        Args: { _weeks?: number }
+        Returns: {
+          calories: number
+          goal: number
+          minutes: number
+          visits: number
+          week_start: string
+          workouts: number
+        }[]
+      }
       get_user_gym_id: { Args: { _user_id: string }; Returns: string }
+      has_kiosk_pin: { Args: { _gym_id: string }; Returns: boolean }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -213,6 +1039,36 @@ export type Database = {
         }
         Returns: boolean
       }
+      kiosk_check_in: {
+        Args: { _gym_id: string; _session_id: string; _user_id: string }
+        Returns: Json
+      }
+      kiosk_search_members: {
+        Args: { _gym_id: string; _query: string; _session_id: string }
+        Returns: {
+          checked_in_today: boolean
+          name: string
+          user_id: string
+        }[]
+      }
+      lock_kiosk_desk: { Args: { _session_id: string }; Returns: undefined }
+      record_check_in: {
+        Args: {
+          _accuracy?: number
+          _latitude?: number
+          _longitude?: number
+          _source?: string
+          _token?: string
+        }
+        Returns: Json
+      }
+      redeem_reward: { Args: { _reward_id: string }; Returns: Json }
+      resolve_redemption: {
+        Args: { _redemption_id: string; _status: string }
+        Returns: Json
+      }
+      set_kiosk_pin: { Args: { _gym_id: string; _pin: string }; Returns: undefined }
+      unlock_kiosk_desk: { Args: { _gym_id: string; _pin: string }; Returns: Json }
     }
     Enums: {
       app_role: "admin" | "owner" | "member"
@@ -0,0 +1,59 @@
+// Reasons record_check_in gives when it refuses a check-in
+export type CheckInRejectionReason =
+  | "invalid_token"
+  | "manual_disabled"
+  | "location_required"
+  | "outside_geofence"
+  | "cooldown";
+
+export interface CheckInRejection {
+  status: "rejected";
+  reason: CheckInRejectionReason;
+  message: string;
+  distance_m: number | null;
+  retry_after: string | null;
+}
+
+// Wall-clock date and time in a timezone, read as if it were UTC
+function getWallClock(timezone: string, at: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+}
+
+// Start of the current day in the gym's timezone, where daily check-in limits reset
+export function getGymDayStart(timezone: string, at = new Date()) {
+  const offsetAt = (instant: number) => getWallClock(timezone, new Date(instant)) - (instant - (instant % 1000));
+  const wallClock = getWallClock(timezone, at);
+  const localMidnight = wallClock - (wallClock % 86400000);
+
+  // The offset is taken again at midnight itself in case a DST change happened since
+  const guess = localMidnight - offsetAt(at.getTime());
+  return new Date(localMidnight - offsetAt(guess));
+}
+
+// Workout rule violations are raised by the database with the type in the error hint
+export type WorkoutRuleViolation = "workout_too_long" | "workout_overlap";
+
+const workoutRuleViolations: WorkoutRuleViolation[] = ["workout_too_long", "workout_overlap"];
+
+export function getWorkoutRuleViolation(error: { hint?: string | null }): WorkoutRuleViolation | null {
+  return workoutRuleViolations.find((violation) => violation === error.hint) ?? null;
+}
+
+export function getCheckInRejectionMessage(rejection: CheckInRejection) {
+  if (rejection.reason === "cooldown" && rejection.retry_after) {
+    const retryAt = new Date(rejection.retry_after).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+    return `You checked in recently. You can check in again at ${retryAt}.`;
+  }
+  return rejection.message;
+}
@@ -0,0 +1,97 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Exercise, Intensity, getTotalDuration, getWorkoutType } from "@/lib/workouts";
+import { CatalogExercise } from "@/lib/exerciseCatalog";
+
+export type Sex = "female" | "male";
+
+export interface BodyProfile {
+  weight_kg: number;
+  birth_year: number | null;
+  sex: Sex | null;
+}
+
+export async function fetchBodyProfile(userId: string): Promise<BodyProfile | null> {
+  const { data, error } = await supabase
+    .from("body_profiles")
+    .select("weight_kg, birth_year, sex")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { ...data, weight_kg: Number(data.weight_kg), sex: data.sex as Sex | null } : null;
+}
+
+export const intensityLabels: Record<Intensity, string> = {
+  light: "Light",
+  moderate: "Moderate",
+  vigorous: "Vigorous",
+};
+
+// Metabolic equivalents by workout type and effort
+// Source: 2011 Compendium of Physical Activities (Ainsworth et al.)
+const metValues: Record<string, Record<Intensity, number>> = {
+  weights: { light: 3.5, moderate: 5.0, vigorous: 6.0 },
+  cardio: { light: 6.0, moderate: 8.3, vigorous: 11.0 },
+  aerobics: { light: 5.0, moderate: 7.3, vigorous: 8.5 },
+  hiit: { light: 6.0, moderate: 8.0, vigorous: 10.0 },
+  spinning: { light: 5.5, moderate: 7.0, vigorous: 8.5 },
+  other: { light: 3.5, moderate: 5.0, vigorous: 6.5 },
+};
+
+// Set-based exercises burn like resistance training whatever the session type.
+// Library exercises use their own moderate MET, scaled by the same effort ratios.
+export function getExerciseMet(exercise: Exercise, workoutType: string, catalog: CatalogExercise[] = []) {
+  const type = exercise.duration === undefined ? "weights" : workoutType;
+  const mets = metValues[type] ?? metValues.other;
+  const intensity = exercise.intensity ?? "moderate";
+  const entry = exercise.exerciseId && catalog.find((candidate) => candidate.id === exercise.exerciseId);
+  return entry ? entry.met * (mets[intensity] / mets.moderate) : mets[intensity];
+}
+
+export function getAge(birthYear: number, at = new Date()) {
+  return at.getFullYear() - birthYear;
+}
+
+// Schofield (WHO/FAO/UNU 1985) resting energy in kcal/day; needs sex and an adult age
+function getRestingKcalPerDay({ weight_kg: weight, birth_year, sex }: BodyProfile) {
+  if (!sex || !birth_year) return null;
+
+  const age = getAge(birth_year);
+  if (age < 18) return null;
+
+  if (sex === "male") {
+    if (age < 30) return 15.057 * weight + 692.2;
+    if (age < 60) return 11.472 * weight + 873.1;
+    return 11.711 * weight + 587.7;
+  }
+  if (age < 30) return 14.818 * weight + 486.6;
+  if (age < 60) return 8.126 * weight + 845.6;
+  return 9.082 * weight + 658.5;
+}
+
+// kcal per minute at 1 MET. The standard 3.5 ml O2/kg/min resting rate is replaced by the
+// person's own when age and sex are known, which is what corrects MET values for them.
+function getKcalPerMetMinute(profile: BodyProfile) {
+  const resting = getRestingKcalPerDay(profile);
+  return resting !== null ? resting / 1440 : (3.5 * profile.weight_kg) / 200;
+}
+
+// Without a body profile the flat per-type rate is used, as before personal estimates existed
+export function estimateCalories(
+  exercises: Exercise[],
+  workoutType: string,
+  profile: BodyProfile | null,
+  catalog: CatalogExercise[] = []
+) {
+  if (!profile) {
+    return Math.round(getTotalDuration(exercises) * getWorkoutType(workoutType).caloriesPerMin);
+  }
+
+  // Each exercise counts for the same minutes as the workout total: its duration, or ~1 per completed set
+  const kcalPerMetMinute = getKcalPerMetMinute(profile);
+  const calories = exercises.reduce(
+    (total, exercise) => total + getExerciseMet(exercise, workoutType, catalog) * kcalPerMetMinute * getTotalDuration([exercise]),
+    0
+  );
+  return Math.round(calories);
+}
@@ -0,0 +1,159 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Exercise, buildSetLog } from "@/lib/workouts";
+
+export type CatalogMuscleGroup = "chest" | "back" | "legs" | "shoulders" | "arms" | "core" | "full_body";
+
+export type Equipment =
+  | "barbell"
+  | "dumbbell"
+  | "kettlebell"
+  | "machine"
+  | "cable"
+  | "bench"
+  | "box"
+  | "mat"
+  | "step"
+  | "treadmill"
+  | "stationary_bike"
+  | "rowing_machine";
+
+export type Modality = "strength" | "cardio" | "hiit" | "mobility";
+
+// Mirrors public.exercises
+export interface CatalogExercise {
+  id: string;
+  name: string;
+  aliases: string[];
+  muscle_groups: CatalogMuscleGroup[];
+  equipment: Equipment[];
+  modality: Modality;
+  met: number;
+  tracking: "sets" | "duration";
+  workout_types: string[];
+  default_sets: number | null;
+  default_reps: number | null;
+  default_duration_minutes: number | null;
+}
+
+export const muscleGroupLabels: Record<CatalogMuscleGroup, string> = {
+  chest: "Chest",
+  back: "Back",
+  legs: "Legs",
+  shoulders: "Shoulders",
+  arms: "Arms",
+  core: "Core",
+  full_body: "Full Body",
+};
+
+export const equipmentLabels: Record<Equipment, string> = {
+  barbell: "Barbell",
+  dumbbell: "Dumbbells",
+  kettlebell: "Kettlebells",
+  machine: "Machines",
+  cable: "Cable station",
+  bench: "Bench",
+  box: "Plyo box",
+  mat: "Mat",
+  step: "Aerobic step",
+  treadmill: "Treadmill",
+  stationary_bike: "Stationary bike",
+  rowing_machine: "Rowing machine",
+};
+
+export async function fetchExerciseCatalog(): Promise<CatalogExercise[]> {
+  const { data, error } = await supabase
+    .from("exercises")
+    .select(
+      "id, name, aliases, muscle_groups, equipment, modality, met, tracking, workout_types, default_sets, default_reps, default_duration_minutes"
+    )
+    .order("name");
+
+  if (error) throw error;
+  return (data || []).map((entry) => ({ ...entry, met: Number(entry.met) }) as CatalogExercise);
+}
+
+// Words that qualify a name without changing the movement, e.g. "Bench Press (Barbell)"
+const qualifierWords = new Set(["barbell", "dumbbell", "dumbbells", "machine", "cable", "kettlebell", "the", "a"]);
+
+// Lowercase, punctuation-free and singular, so "Squats", "squat" and "SQUAT!" compare equal
+export function normalizeExerciseName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+    .join(" ");
+}
+
+function stripQualifiers(normalized: string) {
+  return normalized
+    .split(" ")
+    .filter((word) => !qualifierWords.has(word))
+    .join(" ");
+}
+
+function namesOf(entry: CatalogExercise) {
+  return [entry.name, ...entry.aliases].map(normalizeExerciseName);
+}
+
+// Exact match on the name or an alias, then again with equipment qualifiers removed
+export function findCatalogExercise(catalog: CatalogExercise[], name: string) {
+  const normalized = normalizeExerciseName(name);
+  if (!normalized) return null;
+
+  const exact = catalog.find((entry) => namesOf(entry).includes(normalized));
+  if (exact) return exact;
+
+  const stripped = stripQualifiers(normalized);
+  return catalog.find((entry) => namesOf(entry).some((candidate) => stripQualifiers(candidate) === stripped)) ?? null;
+}
+
+// Autocomplete: names starting with the query first, then any name or alias containing it
+export function searchExerciseCatalog(catalog: CatalogExercise[], query: string, limit = 6) {
+  const normalized = normalizeExerciseName(query);
+  if (!normalized) return [];
+
+  const scored = catalog
+    .map((entry) => {
+      const names = namesOf(entry);
+      if (names[0].startsWith(normalized)) return { entry, score: 0 };
+      if (names.some((candidate) => candidate.startsWith(normalized))) return { entry, score: 1 };
+      if (names.some((candidate) => candidate.includes(normalized))) return { entry, score: 2 };
+      return null;
+    })
+    .filter((match): match is { entry: CatalogExercise; score: number } => match !== null);
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit)
+    .map((match) => match.entry);
+}
+
+// Links an exercise to its catalog entry, switching between set and duration logging
+// only when the entry is tracked differently from the row
+export function applyCatalogExercise(exercise: Exercise, entry: CatalogExercise): Exercise {
+  const linked = { ...exercise, name: entry.name, exerciseId: entry.id };
+
+  if (entry.tracking === "duration" && exercise.duration === undefined) {
+    return { ...linked, duration: entry.default_duration_minutes ?? 10, setLog: undefined, sets: undefined, reps: undefined };
+  }
+  if (entry.tracking === "sets" && exercise.duration !== undefined) {
+    return {
+      ...linked,
+      duration: undefined,
+      setLog: buildSetLog(entry.default_sets ?? 3, entry.default_reps ?? 10),
+    };
+  }
+  return linked;
+}
+
+// Free-text names that match the catalog take its canonical name before saving
+export function linkExercisesToCatalog(exercises: Exercise[], catalog: CatalogExercise[]): Exercise[] {
+  return exercises.map((exercise) => {
+    const entry = exercise.exerciseId
+      ? catalog.find((candidate) => candidate.id === exercise.exerciseId)
+      : findCatalogExercise(catalog, exercise.name);
+    return entry ? { ...exercise, name: entry.name, exerciseId: entry.id } : exercise;
+  });
+}
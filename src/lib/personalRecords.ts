@@ -0,0 +1,195 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Exercise, WeightUnit, parseWorkoutExercises } from "@/lib/workouts";
+
+export type PersonalRecordType = "estimated_1rm" | "heaviest_set" | "most_reps" | "longest_duration";
+
+export interface PersonalRecord {
+  id: string;
+  exercise_key: string;
+  exercise_name: string;
+  record_type: PersonalRecordType;
+  value: number;
+  weight_kg: number;
+  reps: number | null;
+  display_unit: WeightUnit | null;
+  achieved_at: string;
+}
+
+type RecordCandidate = Omit<PersonalRecord, "id" | "achieved_at">;
+
+// A stored record and the value it replaced; previous is null for an exercise's first log
+export type ImprovedRecord = RecordCandidate & { previous: number | null };
+
+export const recordTypeLabels: Record<PersonalRecordType, string> = {
+  estimated_1rm: "Est. 1RM",
+  heaviest_set: "Heaviest set",
+  most_reps: "Most reps",
+  longest_duration: "Longest session",
+};
+
+const KG_PER_LB = 0.45359237;
+const RECOMPUTE_PAGE_SIZE = 500;
+
+export const toKg = (weight: number, unit: WeightUnit) => (unit === "lb" ? weight * KG_PER_LB : weight);
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function getExerciseKey(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Epley estimate; a single rep is the lift itself
+export function estimateOneRepMax(weight: number, reps: number) {
+  return reps === 1 ? weight : weight * (1 + reps / 30);
+}
+
+export function formatRecordValue(record: Pick<PersonalRecord, "record_type" | "value" | "weight_kg" | "reps" | "display_unit">) {
+  const unit = record.display_unit ?? "kg";
+  const fromKg = (kg: number) => round(unit === "lb" ? kg / KG_PER_LB : kg, 1);
+
+  switch (record.record_type) {
+    case "estimated_1rm":
+      return `${fromKg(record.value)} ${unit}`;
+    case "heaviest_set":
+      return `${fromKg(record.value)} ${unit} × ${record.reps}`;
+    case "most_reps":
+      return `${record.value} reps @ ${fromKg(record.weight_kg)} ${unit}`;
+    case "longest_duration":
+      return `${record.value} min`;
+  }
+}
+
+// Matches the personal_records unique key
+const getRecordKey = (record: RecordCandidate) => `${record.exercise_key}|${record.record_type}|${record.weight_kg}`;
+
+// Best candidate per record key from one workout. Only completed working sets with a weight count.
+function getCandidates(exercises: Exercise[]): RecordCandidate[] {
+  const candidates = new Map<string, RecordCandidate>();
+
+  const offer = (candidate: RecordCandidate) => {
+    const key = getRecordKey(candidate);
+    const current = candidates.get(key);
+    if (!current || candidate.value > current.value) {
+      candidates.set(key, candidate);
+    }
+  };
+
+  exercises.forEach((exercise) => {
+    const base = { exercise_key: getExerciseKey(exercise.name), exercise_name: exercise.name.trim() };
+
+    if (exercise.duration !== undefined) {
+      if (exercise.duration > 0) {
+        offer({ ...base, record_type: "longest_duration", value: exercise.duration, weight_kg: 0, reps: null, display_unit: null });
+      }
+      return;
+    }
+
+    (exercise.setLog ?? [])
+      .filter((set) => set.completed && !set.warmup && set.reps > 0 && set.weight && set.weight > 0)
+      .forEach((set) => {
+        const weightKg = round(toKg(set.weight!, set.unit));
+        const shared = { ...base, reps: set.reps, display_unit: set.unit };
+
+        offer({ ...shared, record_type: "estimated_1rm", value: round(estimateOneRepMax(weightKg, set.reps)), weight_kg: 0 });
+        offer({ ...shared, record_type: "heaviest_set", value: weightKg, weight_kg: 0 });
+        offer({ ...shared, record_type: "most_reps", value: set.reps, weight_kg: weightKg });
+      });
+  });
+
+  return [...candidates.values()];
+}
+
+// Compares a saved workout against the member's records and stores any that improved
+export async function recordPersonalRecords(
+  userId: string,
+  workoutId: string,
+  exercises: Exercise[]
+): Promise<ImprovedRecord[]> {
+  const candidates = getCandidates(exercises);
+  if (candidates.length === 0) return [];
+
+  const { data: existing, error } = await supabase
+    .from("personal_records")
+    .select("exercise_key, record_type, weight_kg, value")
+    .eq("user_id", userId)
+    .in("exercise_key", [...new Set(candidates.map((c) => c.exercise_key))]);
+
+  if (error) throw error;
+
+  const improved = candidates
+    .map((candidate) => {
+      const current = (existing || []).find(
+        (record) =>
+          record.exercise_key === candidate.exercise_key &&
+          record.record_type === candidate.record_type &&
+          Number(record.weight_kg) === candidate.weight_kg
+      );
+      return { ...candidate, previous: current ? Number(current.value) : null };
+    })
+    .filter((candidate) => candidate.previous === null || candidate.value > candidate.previous);
+
+  if (improved.length === 0) return [];
+
+  const achievedAt = new Date().toISOString();
+  const { error: upsertError } = await supabase.from("personal_records").upsert(
+    improved.map(({ previous: _previous, ...record }) => ({
+      ...record,
+      user_id: userId,
+      workout_id: workoutId,
+      achieved_at: achievedAt,
+    })),
+    { onConflict: "user_id,exercise_key,record_type,weight_kg" }
+  );
+
+  if (upsertError) throw upsertError;
+  return improved;
+}
+
+// Rebuilds the member's records for these exercises from the workouts they still have, so a
+// corrected or deleted workout cannot leave a record behind. Each record keeps the first
+// workout that reached it.
+export async function recomputePersonalRecords(userId: string, exerciseKeys: string[]) {
+  const keys = new Set(exerciseKeys);
+  if (keys.size === 0) return;
+
+  const best = new Map<string, RecordCandidate & { workout_id: string; achieved_at: string }>();
+  for (let from = 0; ; from += RECOMPUTE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("workouts")
+      .select("id, exercises, created_at")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .range(from, from + RECOMPUTE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach((workout) => {
+      getCandidates(parseWorkoutExercises(workout.exercises as Json))
+        .filter((candidate) => keys.has(candidate.exercise_key))
+        .forEach((candidate) => {
+          const key = getRecordKey(candidate);
+          const current = best.get(key);
+          if (!current || candidate.value > current.value) {
+            best.set(key, { ...candidate, workout_id: workout.id, achieved_at: workout.created_at });
+          }
+        });
+    });
+
+    if (!data || data.length < RECOMPUTE_PAGE_SIZE) break;
+  }
+
+  const { error: deleteError } = await supabase
+    .from("personal_records")
+    .delete()
+    .eq("user_id", userId)
+    .in("exercise_key", [...keys]);
+
+  if (deleteError) throw deleteError;
+  if (best.size === 0) return;
+
+  const { error: insertError } = await supabase
+    .from("personal_records")
+    .insert([...best.values()].map((record) => ({ ...record, user_id: userId })));
+
+  if (insertError) throw insertError;
+}
@@ -0,0 +1,120 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getWorkoutType } from "@/lib/workouts";
+
+// Mirrors public.gym_points_rules. The server prices every earning event from these;
+// the client only uses them for previews and the "how to earn" copy.
+export interface PointsRules {
+  check_in_points: number;
+  points_per_calorie: number;
+  workout_type_multipliers: Record<string, number>;
+  goal_bonus_points: number;
+  streak_bonus_points: number;
+  streak_bonus_min_weeks: number;
+  max_workout_points: number | null;
+  max_daily_points: number | null;
+}
+
+export const defaultPointsRules: PointsRules = {
+  check_in_points: 50,
+  points_per_calorie: 0.1,
+  workout_type_multipliers: {},
+  goal_bonus_points: 100,
+  streak_bonus_points: 25,
+  streak_bonus_min_weeks: 2,
+  max_workout_points: 300,
+  max_daily_points: 500,
+};
+
+export async function fetchPointsRules(gymId: string): Promise<PointsRules> {
+  const { data, error } = await supabase
+    .from("gym_points_rules")
+    .select(
+      "check_in_points, points_per_calorie, workout_type_multipliers, goal_bonus_points, streak_bonus_points, streak_bonus_min_weeks, max_workout_points, max_daily_points"
+    )
+    .eq("gym_id", gymId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return defaultPointsRules;
+
+  return {
+    ...data,
+    points_per_calorie: Number(data.points_per_calorie),
+    workout_type_multipliers: (data.workout_type_multipliers ?? {}) as Record<string, number>,
+  };
+}
+
+export function getWorkoutTypeMultiplier(rules: PointsRules, workoutType: string) {
+  return rules.workout_type_multipliers[workoutType] ?? 1;
+}
+
+// Preview of what the server will award; the daily cap depends on the rest of the day and is applied on save
+export function estimateWorkoutPoints(rules: PointsRules, workoutType: string, calories: number) {
+  const points = Math.round(Math.max(calories, 0) * rules.points_per_calorie * getWorkoutTypeMultiplier(rules, workoutType));
+  return rules.max_workout_points !== null ? Math.min(points, rules.max_workout_points) : points;
+}
+
+export interface EarningRule {
+  key: string;
+  points: string;
+  description: string;
+}
+
+const formatPoints = (points: number) => `${points.toLocaleString()} point${points !== 1 ? "s" : ""}`;
+
+// Rules rendered as the member-facing "how to earn" list; rules worth nothing are left out
+export function describeEarningRules(rules: PointsRules): EarningRule[] {
+  const earning: EarningRule[] = [];
+
+  if (rules.check_in_points > 0) {
+    earning.push({ key: "check_in", points: formatPoints(rules.check_in_points), description: "per gym visit" });
+  }
+
+  if (rules.points_per_calorie > 0) {
+    const caloriesPerPoint = Math.round((1 / rules.points_per_calorie) * 10) / 10;
+    earning.push({
+      key: "workout",
+      points: "1 point",
+      description: `for every ${caloriesPerPoint === 1 ? "calorie" : `${caloriesPerPoint} calories`} burned in a logged workout`,
+    });
+
+    Object.entries(rules.workout_type_multipliers)
+      .filter(([, multiplier]) => multiplier !== 1)
+      .forEach(([type, multiplier]) => {
+        earning.push({
+          key: `multiplier-${type}`,
+          points: `${multiplier}×`,
+          description: `workout points for ${getWorkoutType(type).label} sessions`,
+        });
+      });
+  }
+
+  if (rules.goal_bonus_points > 0) {
+    earning.push({ key: "goal_bonus", points: `${formatPoints(rules.goal_bonus_points)} bonus`, description: "for hitting your weekly goal" });
+  }
+
+  if (rules.streak_bonus_points > 0) {
+    earning.push({
+      key: "streak_bonus",
+      points: `${formatPoints(rules.streak_bonus_points)} extra`,
+      description:
+        rules.streak_bonus_min_weeks <= 1
+          ? "for each week you hit your goal"
+          : `for each week on a streak of ${rules.streak_bonus_min_weeks}+ weeks`,
+    });
+  }
+
+  if (rules.max_workout_points !== null) {
+    earning.push({ key: "max_workout", points: `Up to ${formatPoints(rules.max_workout_points)}`, description: "per workout" });
+  }
+
+  if (rules.max_daily_points !== null) {
+    earning.push({
+      key: "max_daily",
+      points: `Up to ${formatPoints(rules.max_daily_points)}`,
+      description: "per day from visits and workouts",
+    });
+  }
+
+  return earning;
+}
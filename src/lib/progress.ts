@@ -0,0 +1,97 @@
+import { Exercise } from "@/lib/workouts";
+import { CatalogExercise, CatalogMuscleGroup, muscleGroupLabels } from "@/lib/exerciseCatalog";
+import { estimateOneRepMax, getExerciseKey, toKg } from "@/lib/personalRecords";
+
+// The exercise library's muscle groups, plus "other" for free-text names no keyword matches
+export type MuscleGroup = CatalogMuscleGroup | "other";
+
+// Only for free-text names; exercises linked to the library use its primary muscle group.
+// First match wins, so groups are ordered to resolve names like "leg raise", "leg curl",
+// "overhead tricep extension" and "back squat" to the muscle actually trained
+const muscleGroupKeywords: [CatalogMuscleGroup, string[]][] = [
+  ["core", ["plank", "crunch", "sit-up", "sit up", " ab ", "abs", "russian twist", "leg raise", "core", "mountain climber"]],
+  ["legs", ["squat", "lunge", "leg", "calf", "deadlift", "hip thrust", "glute", "step-up", "step up"]],
+  ["arms", ["curl", "tricep", "bicep", "skull", "pushdown", "kickback"]],
+  ["shoulders", ["shoulder", "overhead", "military", "lateral raise", "front raise", "face pull", "arnold", "shrug"]],
+  ["chest", ["bench", "chest", "push-up", "push up", "pushup", "fly", "flye", "dip"]],
+  ["back", ["row", "pull-up", "pull up", "pullup", "chin-up", "chin up", "pulldown", " lat ", "back"]],
+];
+
+export function getMuscleGroup(exercise: Exercise, catalog: CatalogExercise[]): MuscleGroup {
+  const entry = exercise.exerciseId ? catalog.find((candidate) => candidate.id === exercise.exerciseId) : undefined;
+  if (entry && entry.muscle_groups.length > 0) return entry.muscle_groups[0];
+
+  // Padding lets whole-word keywords like " ab " and " lat " match at either end of a name
+  const name = ` ${getExerciseKey(exercise.name)} `;
+  const match = muscleGroupKeywords.find(([, keywords]) => keywords.some((keyword) => name.includes(keyword)));
+  return match ? match[0] : "other";
+}
+
+export const getMuscleGroupLabel = (group: MuscleGroup) => (group === "other" ? "Other" : muscleGroupLabels[group]);
+
+export interface ProgressWorkout {
+  created_at: string;
+  exercises: Exercise[];
+}
+
+// Completed working sets that carry a weight, with the weight in kg
+function getWeightedSets(exercise: Exercise) {
+  if (exercise.duration !== undefined) return [];
+  return (exercise.setLog ?? [])
+    .filter((set) => set.completed && !set.warmup && set.reps > 0 && set.weight && set.weight > 0)
+    .map((set) => ({ reps: set.reps, weightKg: toKg(set.weight!, set.unit) }));
+}
+
+// Training volume (reps x kg) per muscle group, largest first
+export function getVolumeByMuscleGroup(workouts: ProgressWorkout[], catalog: CatalogExercise[]) {
+  const totals = new Map<MuscleGroup, number>();
+
+  workouts.forEach((workout) => {
+    workout.exercises.forEach((exercise) => {
+      const volume = getWeightedSets(exercise).reduce((sum, set) => sum + set.reps * set.weightKg, 0);
+      if (volume > 0) {
+        const group = getMuscleGroup(exercise, catalog);
+        totals.set(group, (totals.get(group) ?? 0) + volume);
+      }
+    });
+  });
+
+  return [...totals.entries()]
+    .map(([group, volume]) => ({ group: getMuscleGroupLabel(group), volume: Math.round(volume) }))
+    .sort((a, b) => b.volume - a.volume);
+}
+
+// Exercises with weighted sets in the range, most frequently logged first
+export function getTrackedExercises(workouts: ProgressWorkout[]) {
+  const counts = new Map<string, { key: string; name: string; count: number }>();
+
+  workouts.forEach((workout) => {
+    workout.exercises.forEach((exercise) => {
+      if (getWeightedSets(exercise).length === 0) return;
+      const key = getExerciseKey(exercise.name);
+      const current = counts.get(key);
+      counts.set(key, { key, name: current?.name ?? exercise.name.trim(), count: (current?.count ?? 0) + 1 });
+    });
+  });
+
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// Best estimated 1RM and heaviest set per workout for one exercise, oldest first
+export function getStrengthTrend(workouts: ProgressWorkout[], exerciseKey: string) {
+  return workouts
+    .map((workout) => {
+      const sets = workout.exercises
+        .filter((exercise) => getExerciseKey(exercise.name) === exerciseKey)
+        .flatMap(getWeightedSets);
+      if (sets.length === 0) return null;
+
+      return {
+        date: workout.created_at,
+        estimatedMax: Math.round(Math.max(...sets.map((set) => estimateOneRepMax(set.weightKg, set.reps))) * 10) / 10,
+        heaviest: Math.round(Math.max(...sets.map((set) => set.weightKg)) * 10) / 10,
+      };
+    })
+    .filter((point): point is NonNullable<typeof point> => point !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,187 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { CatalogMuscleGroup } from "@/lib/exerciseCatalog";
+import { toKg } from "@/lib/personalRecords";
+import { Exercise, buildSetLog, parseWorkoutExercises } from "@/lib/workouts";
+
+export type ExperienceLevel = "beginner" | "intermediate" | "advanced";
+
+export type TrainingGoal = "strength" | "muscle" | "endurance" | "weight_loss" | "mobility" | "general_fitness";
+
+export const experienceLevelLabels: Record<ExperienceLevel, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+};
+
+export const trainingGoalLabels: Record<TrainingGoal, string> = {
+  strength: "Strength",
+  muscle: "Build muscle",
+  endurance: "Endurance",
+  weight_loss: "Weight loss",
+  mobility: "Mobility",
+  general_fitness: "General fitness",
+};
+
+export interface TrainingProfile {
+  experience_level: ExperienceLevel;
+  goals: TrainingGoal[];
+  injuries: string | null;
+}
+
+export async function fetchTrainingProfile(userId: string): Promise<TrainingProfile | null> {
+  const { data, error } = await supabase
+    .from("training_profiles")
+    .select("experience_level, goals, injuries")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data
+    ? { ...data, experience_level: data.experience_level as ExperienceLevel, goals: data.goals as TrainingGoal[] }
+    : null;
+}
+
+// What the suggestion function sees of a past session: enough to progress from, nothing more
+export interface HistoryExercise {
+  name: string;
+  sets?: number;
+  reps?: number;
+  weight_kg?: number;
+  duration_minutes?: number;
+}
+
+export interface HistoryWorkout {
+  date: string;
+  workout_type: string;
+  exercises: HistoryExercise[];
+}
+
+export const SUGGESTION_HISTORY_LIMIT = 5;
+
+// Completed working sets, with the heaviest one standing for the exercise
+function summarizeExercise(exercise: Exercise): HistoryExercise | null {
+  if (exercise.duration !== undefined) {
+    return exercise.duration > 0 ? { name: exercise.name, duration_minutes: exercise.duration } : null;
+  }
+
+  const working = (exercise.setLog ?? []).filter((set) => set.completed && !set.warmup);
+  if (working.length === 0) return null;
+
+  const top = working.reduce((best, set) =>
+    toKg(set.weight ?? 0, set.unit) > toKg(best.weight ?? 0, best.unit) ? set : best
+  );
+  return {
+    name: exercise.name,
+    sets: working.length,
+    reps: top.reps,
+    ...(top.weight !== null && { weight_kg: Math.round(toKg(top.weight, top.unit) * 10) / 10 }),
+  };
+}
+
+export async function fetchSuggestionHistory(userId: string): Promise<HistoryWorkout[]> {
+  const { data, error } = await supabase
+    .from("workouts")
+    .select("created_at, workout_type, exercises")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(SUGGESTION_HISTORY_LIMIT);
+
+  if (error) throw error;
+  return (data || [])
+    .map((workout) => ({
+      date: workout.created_at.slice(0, 10),
+      workout_type: workout.workout_type,
+      exercises: parseWorkoutExercises(workout.exercises as Json)
+        .map(summarizeExercise)
+        .filter((exercise): exercise is HistoryExercise => exercise !== null),
+    }))
+    .filter((workout) => workout.exercises.length > 0);
+}
+
+export interface SuggestionRequest {
+  workoutType: string;
+  equipment: string[] | null;
+  profile: TrainingProfile | null;
+  history: HistoryWorkout[];
+  targetMinutes: number | null;
+  focusMuscleGroups: CatalogMuscleGroup[];
+}
+
+// Response contract of suggest-exercises (see supabase/functions/suggest-exercises/schema.ts).
+// Each exercise has either sets and reps or a duration.
+interface SetsSuggestion {
+  name: string;
+  sets: number;
+  reps: number;
+  weight_kg?: number;
+  exercise_id?: string;
+}
+
+interface DurationSuggestion {
+  name: string;
+  duration_minutes: number;
+  exercise_id?: string;
+}
+
+type SuggestedExercise = SetsSuggestion | DurationSuggestion;
+
+interface SuggestionsResponse {
+  exercises: SuggestedExercise[];
+  source: "ai" | "fallback";
+  fallback_reason: string | null;
+  warnings: string[];
+}
+
+export interface ExerciseSuggestions {
+  exercises: Exercise[];
+  // "fallback" when the AI reply was unusable and the standard list was returned
+  source: SuggestionsResponse["source"];
+}
+
+// Fetch AI exercise suggestions from edge function
+export async function fetchExerciseSuggestions(request: SuggestionRequest): Promise<ExerciseSuggestions> {
+  const { data, error } = await supabase.functions.invoke("suggest-exercises", {
+    body: {
+      workout_type: request.workoutType,
+      experience_level: request.profile?.experience_level ?? "beginner",
+      goals: request.profile?.goals ?? [],
+      injuries: request.profile?.injuries ?? null,
+      equipment: request.equipment,
+      recent_workouts: request.history,
+      target_duration_minutes: request.targetMinutes,
+      focus_muscle_groups: request.focusMuscleGroups,
+    },
+  });
+
+  if (error) {
+    console.error("Error fetching AI suggestions:", error);
+    throw new Error(error.message || "Failed to fetch suggestions");
+  }
+
+  if (data.error) {
+    throw new Error(data.error);
+  }
+
+  const response = data as SuggestionsResponse;
+  const isAISuggested = response.source === "ai";
+
+  // Transform API response to Exercise format; a suggested weight pre-fills every set
+  const exercises = response.exercises.map((ex, idx): Exercise => {
+    const base = { id: `ai-${idx}`, name: ex.name, exerciseId: ex.exercise_id, isAISuggested };
+    if ("duration_minutes" in ex) {
+      return { ...base, duration: ex.duration_minutes };
+    }
+    return {
+      ...base,
+      sets: ex.sets,
+      reps: ex.reps,
+      setLog:
+        ex.weight_kg !== undefined
+          ? buildSetLog(ex.sets, ex.reps).map((set) => ({ ...set, weight: ex.weight_kg }))
+          : undefined,
+    };
+  });
+
+  return { exercises, source: response.source };
+}
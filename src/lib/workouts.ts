@@ -0,0 +1,156 @@
+import { Dumbbell, Heart, Footprints, Zap, Bike, MoreHorizontal } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+
+// Calories burned per minute based on national averages (moderate intensity)
+// Sources: Harvard Health, ACE Fitness, Mayo Clinic
+export const workoutTypes = [
+  { value: "weights", label: "Weights", icon: Dumbbell, color: "text-blue-400", caloriesPerMin: 5 },
+  { value: "cardio", label: "Cardio", icon: Heart, color: "text-red-400", caloriesPerMin: 10 },
+  { value: "aerobics", label: "Aerobics", icon: Footprints, color: "text-purple-400", caloriesPerMin: 8 },
+  { value: "hiit", label: "HIIT", icon: Zap, color: "text-orange-400", caloriesPerMin: 14 },
+  { value: "spinning", label: "Spinning", icon: Bike, color: "text-green-400", caloriesPerMin: 12 },
+  { value: "other", label: "Other", icon: MoreHorizontal, color: "text-muted-foreground", caloriesPerMin: 6 },
+];
+
+export function getWorkoutType(value: string) {
+  return workoutTypes.find((type) => type.value === value) ?? workoutTypes[workoutTypes.length - 1];
+}
+
+export type WeightUnit = "kg" | "lb";
+
+export type Intensity = "light" | "moderate" | "vigorous";
+
+export interface ExerciseSet {
+  reps: number;
+  weight: number | null;
+  unit: WeightUnit;
+  rpe: number | null;
+  warmup: boolean;
+  completed: boolean;
+}
+
+export interface Exercise {
+  id: string;
+  name: string;
+  sets?: number;
+  reps?: number;
+  duration?: number;
+  isAISuggested?: boolean;
+  // Individual sets for strength exercises; timed exercises use duration instead
+  setLog?: ExerciseSet[];
+  // Effort used for the calorie estimate; unset means moderate
+  intensity?: Intensity;
+  // Catalog entry (public.exercises) the name was matched to, if any
+  exerciseId?: string;
+}
+
+export function createSet(reps = 10, unit: WeightUnit = "kg"): ExerciseSet {
+  return { reps, weight: null, unit, rpe: null, warmup: false, completed: false };
+}
+
+// Planned sets x reps become individual set rows for logging
+export function buildSetLog(sets = 3, reps = 10): ExerciseSet[] {
+  return Array.from({ length: Math.max(sets, 1) }, () => createSet(reps));
+}
+
+// Total duration from exercises, estimating ~1 minute per completed set for strength exercises
+export function getTotalDuration(exercises: Exercise[]) {
+  return exercises.reduce((total, ex) => {
+    if (ex.duration) return total + ex.duration;
+    if (ex.setLog) return total + ex.setLog.filter((set) => set.completed).length;
+    if (ex.sets && ex.reps) return total + ex.sets;
+    return total;
+  }, 0);
+}
+
+// workouts.exercises is versioned. Version 1 was a bare array of aggregate exercises
+// ({ name, sets, reps, duration }); version 2 wraps per-set logs in { version, exercises }.
+export const WORKOUT_EXERCISES_VERSION = 2;
+
+interface StoredExercise {
+  name: string;
+  duration?: number;
+  sets?: ExerciseSet[];
+  intensity?: Intensity;
+  exercise_id?: string;
+}
+
+export interface StoredWorkoutExercises {
+  version: typeof WORKOUT_EXERCISES_VERSION;
+  exercises: StoredExercise[];
+}
+
+export function serializeWorkoutExercises(exercises: Exercise[]): StoredWorkoutExercises {
+  return {
+    version: WORKOUT_EXERCISES_VERSION,
+    exercises: exercises
+      .filter((ex) => ex.name.trim())
+      .map((ex) => ({
+        ...(ex.setLog && ex.duration === undefined
+          ? { name: ex.name.trim(), sets: ex.setLog }
+          : { name: ex.name.trim(), duration: ex.duration ?? 0 }),
+        ...(ex.intensity && { intensity: ex.intensity }),
+        ...(ex.exerciseId && { exercise_id: ex.exerciseId }),
+      })),
+  };
+}
+
+// Reads any stored version into editor exercises; version 1 sets are assumed completed
+export function parseWorkoutExercises(value: Json): Exercise[] {
+  if (Array.isArray(value)) {
+    return (value as unknown as TemplateExercise[]).map((ex, idx) => ({
+      id: `logged-${idx}`,
+      name: ex.name,
+      duration: ex.duration,
+      setLog: ex.duration === undefined && ex.sets
+        ? buildSetLog(ex.sets, ex.reps).map((set) => ({ ...set, completed: true }))
+        : undefined,
+    }));
+  }
+
+  const stored = value as unknown as StoredWorkoutExercises | null;
+  return (stored?.exercises ?? []).map((ex, idx) => ({
+    id: `logged-${idx}`,
+    name: ex.name,
+    duration: ex.duration,
+    setLog: ex.sets,
+    intensity: ex.intensity,
+    exerciseId: ex.exercise_id,
+  }));
+}
+
+// Exercises as stored in a template, without the editor's row ids or set logs
+export type TemplateExercise = Omit<Exercise, "id" | "isAISuggested" | "setLog" | "intensity">;
+
+export interface WorkoutTemplate {
+  id: string;
+  user_id: string;
+  gym_id: string | null;
+  name: string;
+  workout_type: string;
+  exercises: TemplateExercise[];
+  updated_at: string;
+}
+
+// Logged sets collapse back to a plan: working sets and the reps of the first one
+export function toTemplateExercises(exercises: Exercise[]): TemplateExercise[] {
+  return exercises
+    .filter((ex) => ex.name.trim())
+    .map(({ name, sets, reps, duration, setLog, exerciseId }) => {
+      const workingSets = setLog?.filter((set) => !set.warmup);
+      return workingSets && duration === undefined
+        ? { name: name.trim(), sets: workingSets.length, reps: workingSets[0]?.reps, exerciseId }
+        : { name: name.trim(), sets, reps, duration, exerciseId };
+    });
+}
+
+export function fromTemplateExercises(exercises: TemplateExercise[], idPrefix = "template"): Exercise[] {
+  return exercises.map((ex, idx) => ({ ...ex, id: `${idPrefix}-${idx}`, isAISuggested: false }));
+}
+
+// Strength exercises get one row per planned set so each can be logged
+export function withSetLogs(exercises: Exercise[]): Exercise[] {
+  return exercises.map((ex) =>
+    ex.duration === undefined && !ex.setLog ? { ...ex, setLog: buildSetLog(ex.sets, ex.reps) } : ex
+  );
+}
@@ -0,0 +1,447 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  ArrowLeft,
+  Calendar,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Flame,
+  History as HistoryIcon,
+  Loader2,
+  Pencil,
+  Trash2,
+  Zap,
+} from "lucide-react";
+import { BottomNav } from "@/components/member/BottomNav";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { getExerciseKey, recomputePersonalRecords } from "@/lib/personalRecords";
+import { cn } from "@/lib/utils";
+import { getWorkoutType, parseWorkoutExercises, workoutTypes } from "@/lib/workouts";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 10;
+
+interface WorkoutEntry {
+  id: string;
+  workout_type: string;
+  exercises: Json;
+  total_duration_minutes: number;
+  calories_burned: number;
+  points_earned: number;
+  created_at: string;
+}
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString([], { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+
+const History = () => {
+  const navigate = useNavigate();
+  const { user, isLoading: authLoading } = useAuth();
+  const [workouts, setWorkouts] = useState<WorkoutEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedWorkout, setSelectedWorkout] = useState<WorkoutEntry | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  const fetchWorkouts = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      let query = supabase
+        .from("workouts")
+        .select("id, workout_type, exercises, total_duration_minutes, calories_burned, points_earned, created_at", {
+          count: "exact",
+        })
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+      if (typeFilter !== "all") {
+        query = query.eq("workout_type", typeFilter);
+      }
+      // Date inputs are local calendar days; include the whole "to" day
+      if (fromDate) {
+        query = query.gte("created_at", new Date(`${fromDate}T00:00:00`).toISOString());
+      }
+      if (toDate) {
+        const end = new Date(`${toDate}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        query = query.lt("created_at", end.toISOString());
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw error;
+
+      setWorkouts(data || []);
+      setTotalCount(count ?? 0);
+    } catch (error) {
+      console.error("Error loading workout history:", error);
+      toast.error("Failed to load workout history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, page, typeFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchWorkouts();
+  }, [fetchWorkouts]);
+
+  // Changing a filter starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [typeFilter, fromDate, toDate]);
+
+  const handleDelete = async () => {
+    if (!selectedWorkout || !user) return;
+
+    setIsDeleting(true);
+    const { error } = await supabase.from("workouts").delete().eq("id", selectedWorkout.id);
+    setIsDeleting(false);
+
+    if (error) {
+      console.error("Delete workout error:", error);
+      toast.error("Failed to delete workout");
+      return;
+    }
+
+    // Records the deleted workout held fall back to the member's next best
+    try {
+      await recomputePersonalRecords(
+        user.id,
+        parseWorkoutExercises(selectedWorkout.exercises).map((exercise) => getExerciseKey(exercise.name))
+      );
+    } catch (recordError) {
+      console.error("Failed to update personal records:", recordError);
+    }
+
+    toast.success("Workout deleted", {
+      description:
+        selectedWorkout.points_earned > 0 ? `${selectedWorkout.points_earned} points were removed from your balance` : undefined,
+    });
+    setIsConfirmingDelete(false);
+    setSelectedWorkout(null);
+    if (workouts.length === 1 && page > 0) {
+      setPage(page - 1);
+    } else {
+      fetchWorkouts();
+    }
+  };
+
+  const pageCount = Math.max(Math.ceil(totalCount / PAGE_SIZE), 1);
+  const hasFilters = typeFilter !== "all" || fromDate || toDate;
+  const selectedType = selectedWorkout ? getWorkoutType(selectedWorkout.workout_type) : null;
+  const selectedExercises = selectedWorkout ? parseWorkoutExercises(selectedWorkout.exercises) : [];
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen pb-24">
+      {/* Header */}
+      <header className="px-5 pt-12 pb-4">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-3"
+        >
+          <button
+            onClick={() => navigate("/profile")}
+            className="w-10 h-10 rounded-xl bg-muted flex items-center justify-center"
+          >
+            <ArrowLeft className="w-5 h-5 text-foreground" />
+          </button>
+          <div>
+            <h1 className="text-xl font-bold text-foreground">Workout History</h1>
+            <p className="text-sm text-muted-foreground">
+              {totalCount} workout{totalCount !== 1 ? "s" : ""}
+              {hasFilters ? " matching filters" : " logged"}
+            </p>
+          </div>
+        </motion.div>
+      </header>
+
+      <main className="px-5 space-y-5">
+        {/* Filters */}
+        <motion.section
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass rounded-2xl p-4 space-y-3"
+        >
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="h-10 bg-muted/50 border-border rounded-lg">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {workoutTypes.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="history-from" className="text-xs text-muted-foreground">From</Label>
+              <Input
+                id="history-from"
+                type="date"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="h-10 bg-muted/50 border-border rounded-lg"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-to" className="text-xs text-muted-foreground">To</Label>
+              <Input
+                id="history-to"
+                type="date"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(e) => setToDate(e.target.value)}
+                className="h-10 bg-muted/50 border-border rounded-lg"
+              />
+            </div>
+          </div>
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setTypeFilter("all");
+                setFromDate("");
+                setToDate("");
+              }}
+              className="w-full text-muted-foreground"
+            >
+              Clear filters
+            </Button>
+          )}
+        </motion.section>
+
+        {/* Workout List */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : workouts.length === 0 ? (
+          <div className="glass rounded-2xl p-8 text-center">
+            <HistoryIcon className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">
+              {hasFilters ? "No workouts match these filters." : "No workouts logged yet."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {workouts.map((workout, index) => {
+              const type = getWorkoutType(workout.workout_type);
+              return (
+                <motion.button
+                  key={workout.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.03 }}
+                  onClick={() => setSelectedWorkout(workout)}
+                  className="w-full glass rounded-xl p-4 flex items-center gap-3 text-left hover:bg-card/90 transition-all"
+                >
+                  <div className={cn("w-10 h-10 rounded-xl bg-muted flex items-center justify-center", type.color)}>
+                    <type.icon className="w-5 h-5" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground">{type.label}</p>
+                    <p className="text-xs text-muted-foreground">{formatDate(workout.created_at)}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-semibold text-primary">+{workout.points_earned}</p>
+                    <p className="text-xs text-muted-foreground">{workout.total_duration_minutes} min</p>
+                  </div>
+                </motion.button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalCount > PAGE_SIZE && (
+          <div className="flex items-center justify-between">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0 || isLoading}
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Newer
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page + 1 >= pageCount || isLoading}
+            >
+              Older
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        )}
+      </main>
+
+      {/* Workout Detail */}
+      <Dialog open={selectedWorkout !== null} onOpenChange={(open) => !open && setSelectedWorkout(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          {selectedWorkout && selectedType && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <selectedType.icon className={cn("w-5 h-5", selectedType.color)} />
+                  {selectedType.label} Workout
+                </DialogTitle>
+                <DialogDescription className="flex items-center gap-1">
+                  <Calendar className="w-3 h-3" />
+                  {formatDate(selectedWorkout.created_at)} at{" "}
+                  {new Date(selectedWorkout.created_at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="rounded-xl bg-secondary/50 p-3 text-center">
+                  <Clock className="w-4 h-4 text-muted-foreground mx-auto mb-1" />
+                  <p className="font-semibold text-foreground">{selectedWorkout.total_duration_minutes}</p>
+                  <p className="text-xs text-muted-foreground">minutes</p>
+                </div>
+                <div className="rounded-xl bg-secondary/50 p-3 text-center">
+                  <Flame className="w-4 h-4 text-orange-400 mx-auto mb-1" />
+                  <p className="font-semibold text-foreground">{selectedWorkout.calories_burned}</p>
+                  <p className="text-xs text-muted-foreground">calories</p>
+                </div>
+                <div className="rounded-xl bg-secondary/50 p-3 text-center">
+                  <Zap className="w-4 h-4 text-primary mx-auto mb-1" />
+                  <p className="font-semibold text-foreground">{selectedWorkout.points_earned}</p>
+                  <p className="text-xs text-muted-foreground">points</p>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {selectedExercises.map((exercise) => (
+                  <div key={exercise.id} className="rounded-xl border border-border p-3">
+                    <p className="font-medium text-foreground">{exercise.name}</p>
+                    {exercise.setLog ? (
+                      <div className="mt-2 space-y-1">
+                        {exercise.setLog.map((set, idx) => (
+                          <p
+                            key={idx}
+                            className={cn("text-sm", set.completed ? "text-muted-foreground" : "text-muted-foreground/50 line-through")}
+                          >
+                            {set.warmup ? "Warm-up" : `Set ${idx + 1}`}: {set.reps} reps
+                            {set.weight ? ` × ${set.weight} ${set.unit}` : ""}
+                            {set.rpe ? ` @ RPE ${set.rpe}` : ""}
+                          </p>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground mt-1">{exercise.duration ?? 0} min</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <DialogFooter className="gap-2 sm:gap-0">
+                <Button
+                  variant="ghost"
+                  onClick={() => setIsConfirmingDelete(true)}
+                  className="text-destructive hover:text-destructive gap-2"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </Button>
+                <Button onClick={() => navigate(`/workout?edit=${selectedWorkout.id}`)} className="gap-2">
+                  <Pencil className="w-4 h-4" />
+                  Edit
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this workout?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {selectedWorkout && selectedWorkout.points_earned > 0
+                ? `The ${selectedWorkout.points_earned} points it earned will be removed from your balance.`
+                : "This cannot be undone."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? <Loader2 className="w-4 h-4 animate-spin" /> : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <BottomNav />
+    </div>
+  );
+};
+
+export default History;
@@ -1,41 +1,55 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
 import { Zap, Target, Trophy, Calendar, Dumbbell, Building2 } from "lucide-react";
 import { ProgressRing } from "@/components/member/ProgressRing";
 import { StatCard } from "@/components/member/StatCard";
 import { BottomNav } from "@/components/member/BottomNav";
-import { CheckInButton } from "@/components/member/CheckInButton";
+import { CheckInButton, CheckInResult } from "@/components/member/CheckInButton";
 import { StreakBadge } from "@/components/member/StreakBadge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { getGymDayStart } from "@/lib/activityRules";
 
-// Mock data - will be replaced with real data from Lovable Cloud
-const mockData = {
-  weeklyGoal: 4,
-  visitsThisWeek: 3,
-  streak: 5,
-  totalPoints: 2450,
-  pointsThisWeek: 150,
-  hasGym: true, // Set to false to test join gym flow
-  hasGoal: true, // Set to false to test set goal flow
-};
+interface WeekProgress {
+  week_start: string;
+  visits: number;
+  goal: number | null;
+  points: number;
+}
+
+interface MemberWeek {
+  week_start: string;
+  visits: number;
+  goal: number | null;
+  goal_met: boolean;
+  goal_bonus_points: number;
+  streak_bonus_points: number;
+}
 
 interface MemberGym {
   id: string;
   name: string;
   logo_url: string | null;
   tagline: string | null;
+  allow_manual_check_in: boolean;
+  latitude: number | null;
+  longitude: number | null;
 }
 
 const Index = () => {
   const { user, isLoading } = useAuth();
   const navigate = useNavigate();
   const [isCheckedIn, setIsCheckedIn] = useState(false);
-  const [visits, setVisits] = useState(mockData.visitsThisWeek);
-  const [points, setPoints] = useState(mockData.totalPoints);
+  const [visits, setVisits] = useState(0);
+  const [weeklyGoal, setWeeklyGoal] = useState<number | null>(null);
+  const [points, setPoints] = useState(0);
+  const [pointsThisWeek, setPointsThisWeek] = useState(0);
+  const [streak, setStreak] = useState(0);
+  const [settledWeeks, setSettledWeeks] = useState<MemberWeek[]>([]);
+  const [gymRank, setGymRank] = useState<{ rank: number; memberCount: number } | null>(null);
   const [memberGym, setMemberGym] = useState<MemberGym | null>(null);
   const { toast } = useToast();
 
@@ -47,7 +61,7 @@ const Index = () => {
       // First check if user is an owner (owns a gym)
       const { data: ownedGym } = await supabase
         .from("gyms")
-        .select("id, name, logo_url, tagline")
+        .select("id, name, logo_url, tagline, allow_manual_check_in, latitude, longitude")
         .eq("owner_id", user.id)
         .maybeSingle();
       
@@ -66,7 +80,7 @@ const Index = () => {
       if (profile?.gym_id) {
         const { data: gym } = await supabase
           .from("gyms")
-          .select("id, name, logo_url, tagline")
+          .select("id, name, logo_url, tagline, allow_manual_check_in, latitude, longitude")
           .eq("id", profile.gym_id)
           .maybeSingle();
         
@@ -81,31 +95,100 @@ const Index = () => {
     }
   }, [user]);
 
+  // Fetch persisted check-ins, weekly progress and points
+  const fetchActivity = useCallback(async () => {
+    if (!user) return;
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("gym_id, total_points, weekly_goal")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    setPoints(profile?.total_points || 0);
+
+    // The button stays available until today's point-earning check-ins are used up.
+    // Days follow the gym's timezone, as they do on the server.
+    const { data: gymRules } = profile?.gym_id
+      ? await supabase.from("gyms").select("max_daily_check_ins, timezone").eq("id", profile.gym_id).maybeSingle()
+      : { data: null };
+
+    const { count: earningCheckIns } = await supabase
+      .from("check_ins")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .gt("points_awarded", 0)
+      .gte("created_at", getGymDayStart(gymRules?.timezone ?? "UTC").toISOString());
+    setIsCheckedIn((earningCheckIns || 0) >= (gymRules?.max_daily_check_ins ?? 1));
+
+    // Members who joined a gym but never picked a goal finish onboarding first
+    if (profile?.gym_id && profile.weekly_goal === null) {
+      navigate("/set-goal");
+      return;
+    }
+
+    const { data: weekProgress } = await supabase.rpc("get_my_week_progress");
+    const progressData = weekProgress as unknown as WeekProgress | null;
+    setVisits(progressData?.visits || 0);
+    setPointsThisWeek(progressData?.points || 0);
+    setWeeklyGoal(progressData?.goal ?? profile?.weekly_goal ?? null);
+
+    const { data: currentStreak } = await supabase.rpc("get_my_streak");
+    setStreak(currentStreak || 0);
+
+    // Settled weekly summaries (newest first) covering at least the current month
+    const { data: memberWeeks } = await supabase
+      .from("member_weeks")
+      .select("week_start, visits, goal, goal_met, goal_bonus_points, streak_bonus_points")
+      .eq("user_id", user.id)
+      .order("week_start", { ascending: false })
+      .limit(6);
+
+    setSettledWeeks(memberWeeks || []);
+
+    // Only the current user's row is needed; it is always returned
+    const { data: leaderboard } = await supabase.rpc("get_leaderboard", { _scope: "gym", _limit: 0 });
+    const ownEntry = leaderboard?.find((entry) => entry.is_current_user);
+    setGymRank(ownEntry ? { rank: ownEntry.rank, memberCount: ownEntry.member_count } : null);
+  }, [user, navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchActivity();
+    }
+  }, [user, fetchActivity]);
+
   useEffect(() => {
     if (!isLoading && !user) {
       navigate("/auth");
     }
-    // Redirect based on onboarding state
-    if (!isLoading && user) {
-      if (!mockData.hasGym) {
-        navigate("/join-gym");
-      } else if (!mockData.hasGoal) {
-        navigate("/set-goal");
-      }
-    }
   }, [user, isLoading, navigate]);
 
-  const progress = (visits / mockData.weeklyGoal) * 100;
-  const visitsRemaining = mockData.weeklyGoal - visits;
+  const startOfMonth = new Date();
+  startOfMonth.setDate(1);
+  startOfMonth.setHours(0, 0, 0, 0);
+  const goalsHitThisMonth = settledWeeks.filter(
+    (week) => week.goal_met && new Date(`${week.week_start}T00:00:00`) >= startOfMonth
+  ).length;
+  const lastWeek = settledWeeks[0] || null;
+  const topPercent = gymRank
+    ? Math.max(Math.ceil((gymRank.rank / gymRank.memberCount) * 100), 1)
+    : null;
 
-  const handleCheckIn = () => {
-    setIsCheckedIn(true);
-    setVisits((prev) => prev + 1);
-    setPoints((prev) => prev + 50);
+  const progress = weeklyGoal ? (visits / weeklyGoal) * 100 : 0;
+  const visitsRemaining = Math.max((weeklyGoal || 0) - visits, 0);
+
+  const handleCheckIn = (result: CheckInResult) => {
+    setIsCheckedIn(result.point_check_ins_remaining_today <= 0);
+    setPoints(result.total_points);
+    fetchActivity();
     
     toast({
       title: "🎉 Check-in successful!",
-      description: "+50 points earned. Keep crushing it!",
+      description:
+        result.points_awarded > 0
+          ? `+${result.points_awarded} points earned. Keep crushing it!`
+          : "Your visit counts towards your goal. You've earned all of today's check-in points.",
     });
   };
 
@@ -158,7 +241,7 @@ const Index = () => {
               </div>
             </div>
           </div>
-          <StreakBadge streak={mockData.streak} />
+          <StreakBadge streak={streak} />
         </motion.div>
       </header>
 
@@ -179,13 +262,17 @@ const Index = () => {
           <ProgressRing progress={Math.min(progress, 100)} size={180} strokeWidth={14}>
             <div className="text-center">
               <span className="text-4xl font-bold text-foreground">{visits}</span>
-              <span className="text-xl text-muted-foreground">/{mockData.weeklyGoal}</span>
+              <span className="text-xl text-muted-foreground">/{weeklyGoal ?? "–"}</span>
               <p className="text-sm text-muted-foreground mt-1">visits</p>
             </div>
           </ProgressRing>
 
           <p className="text-center mt-4 text-muted-foreground">
-            {progress >= 100 ? (
+            {weeklyGoal === null ? (
+              <button onClick={() => navigate("/set-goal")} className="text-primary font-semibold">
+                Set a weekly goal to track your progress
+              </button>
+            ) : progress >= 100 ? (
               <span className="text-primary font-semibold">🎯 Goal achieved! Amazing work!</span>
             ) : (
               <>
@@ -198,7 +285,12 @@ const Index = () => {
 
         {/* Action Buttons */}
         <div className="grid grid-cols-2 gap-4">
-          <CheckInButton onCheckIn={handleCheckIn} isCheckedIn={isCheckedIn} />
+          <CheckInButton
+            onCheckIn={handleCheckIn}
+            isCheckedIn={isCheckedIn}
+            allowManual={memberGym?.allow_manual_check_in}
+            requireLocation={memberGym?.latitude != null && memberGym?.longitude != null}
+          />
           <Button
             onClick={() => navigate("/workout")}
             variant="secondary"
@@ -220,21 +312,21 @@ const Index = () => {
           <StatCard
             icon={Calendar}
             label="This Week"
-            value={`+${mockData.pointsThisWeek}`}
+            value={`${pointsThisWeek < 0 ? "" : "+"}${pointsThisWeek.toLocaleString()}`}
             subtext="pts"
             delay={0.25}
           />
           <StatCard
             icon={Trophy}
             label="Rank"
-            value="#12"
-            subtext="of 156"
+            value={gymRank ? `#${gymRank.rank}` : "—"}
+            subtext={gymRank ? `of ${gymRank.memberCount}` : undefined}
             delay={0.3}
           />
           <StatCard
             icon={Target}
             label="Goals Hit"
-            value="8"
+            value={goalsHitThisMonth}
             subtext="this month"
             delay={0.35}
           />
@@ -249,10 +341,29 @@ const Index = () => {
         >
           <h3 className="font-semibold text-foreground mb-2">💪 Your Progress</h3>
           <p className="text-sm text-muted-foreground leading-relaxed">
-            You're on a <span className="text-orange-500 font-semibold">{mockData.streak}-week streak</span>! 
-            Keep it up to earn bonus points. You're ranked in the{" "}
-            <span className="text-primary font-semibold">top 10%</span> of your gym this month.
+            {streak > 0 ? (
+              <>
+                You're on a <span className="text-orange-500 font-semibold">{streak}-week streak</span>!
+                Keep it up to earn bonus points.
+              </>
+            ) : (
+              <>Hit your weekly goal to start a streak and earn bonus points.</>
+            )}
+            {topPercent !== null && (
+              <>
+                {" "}You're ranked in the{" "}
+                <span className="text-primary font-semibold">top {topPercent}%</span> of your gym.
+              </>
+            )}
           </p>
+          {lastWeek && (
+            <p className="text-sm text-muted-foreground leading-relaxed mt-2">
+              Last week: <span className="text-foreground font-semibold">{lastWeek.visits}/{lastWeek.goal ?? "–"} visits</span>
+              {lastWeek.goal_met
+                ? ` · goal hit, +${lastWeek.goal_bonus_points + lastWeek.streak_bonus_points} bonus points`
+                : " · goal missed"}
+            </p>
+          )}
         </motion.section>
       </main>
 
@@ -0,0 +1,533 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { QRCodeSVG } from "qrcode.react";
+import {
+  Building2,
+  Check,
+  KeyRound,
+  Loader2,
+  Lock,
+  Maximize,
+  Minimize,
+  RefreshCw,
+  Search,
+  Trophy,
+  UserCheck,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { CheckInResult } from "@/components/member/CheckInButton";
+import { CheckInRejection, getCheckInRejectionMessage } from "@/lib/activityRules";
+import { toast } from "sonner";
+
+// Tokens rotate every 30 seconds server-side; refreshing more often keeps the code always valid
+const TOKEN_REFRESH_MS = 10000;
+const LEADERS_REFRESH_MS = 60000;
+// The front desk panel locks itself after this long without a tap or key press
+const IDLE_TIMEOUT_MS = 60000;
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface KioskGym {
+  id: string;
+  name: string;
+  logo_url: string | null;
+  tagline: string | null;
+}
+
+interface QrToken {
+  token: string;
+  expires_at: string;
+}
+
+interface KioskLeader {
+  name: string;
+  points: number;
+  visits: number;
+  rank: number;
+}
+
+interface KioskMember {
+  user_id: string;
+  name: string;
+  checked_in_today: boolean;
+}
+
+type KioskCheckInResponse = ((CheckInResult & { status: "accepted" }) | CheckInRejection) & { name: string };
+
+type UnlockResponse =
+  | { status: "unlocked"; session_id: string; operator_name: string }
+  | { status: "invalid_pin" }
+  | { status: "locked"; retry_after: string };
+
+// The desk session behind the unlocked panel; the server ends it when locked or idle
+interface DeskSession {
+  id: string;
+  operatorName: string;
+}
+
+const isKioskLocked = (error: { hint?: string | null }) => error.hint === "kiosk_locked";
+
+const Kiosk = () => {
+  const { gymId } = useParams<{ gymId: string }>();
+  const { user, isLoading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [gym, setGym] = useState<KioskGym | null>(null);
+  const [qrToken, setQrToken] = useState<QrToken | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [leaders, setLeaders] = useState<KioskLeader[]>([]);
+  const [deskSession, setDeskSession] = useState<DeskSession | null>(null);
+  const [isUnlockOpen, setIsUnlockOpen] = useState(false);
+  const [pin, setPin] = useState("");
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<KioskMember[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [checkingInId, setCheckingInId] = useState<string | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth?type=owner");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    const fetchGym = async () => {
+      if (!gymId) return;
+
+      const { data } = await supabase
+        .from("gyms")
+        .select("id, name, logo_url, tagline")
+        .eq("id", gymId)
+        .maybeSingle();
+
+      setGym(data);
+    };
+
+    fetchGym();
+  }, [gymId]);
+
+  const refreshToken = useCallback(async () => {
+    if (!gymId) return;
+
+    const { data, error } = await supabase.rpc("get_check_in_qr_token", { _gym_id: gymId });
+
+    if (error) {
+      console.error("Error loading check-in code:", error);
+      setError(error.message || "Failed to load check-in code");
+      setQrToken(null);
+      return;
+    }
+
+    setError(null);
+    setQrToken(data as unknown as QrToken);
+  }, [gymId]);
+
+  const refreshLeaders = useCallback(async () => {
+    if (!gymId) return;
+
+    const { data, error } = await supabase.rpc("get_kiosk_leaders", { _gym_id: gymId });
+
+    if (error) {
+      console.error("Error loading today's leaders:", error);
+      return;
+    }
+
+    setLeaders(data || []);
+  }, [gymId]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    refreshToken();
+    const interval = setInterval(refreshToken, TOKEN_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [user, refreshToken]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    refreshLeaders();
+    const interval = setInterval(refreshLeaders, LEADERS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [user, refreshLeaders]);
+
+  const lockDesk = useCallback(() => {
+    if (deskSession) {
+      supabase.rpc("lock_kiosk_desk", { _session_id: deskSession.id }).then(({ error }) => {
+        if (error) console.error("Error locking front desk:", error);
+      });
+    }
+    setDeskSession(null);
+    setSearch("");
+    setResults([]);
+  }, [deskSession]);
+
+  const handleUnlockOpenChange = (open: boolean) => {
+    setIsUnlockOpen(open);
+    setPin("");
+    setUnlockError(null);
+  };
+
+  const handleUnlock = async () => {
+    if (!gymId || pin === "") return;
+
+    setIsUnlocking(true);
+    const { data, error } = await supabase.rpc("unlock_kiosk_desk", { _gym_id: gymId, _pin: pin });
+    setIsUnlocking(false);
+    setPin("");
+
+    if (error) {
+      console.error("Front desk unlock error:", error);
+      setUnlockError(error.message || "Failed to unlock the front desk");
+      return;
+    }
+
+    const response = data as unknown as UnlockResponse;
+    if (response.status === "invalid_pin") {
+      setUnlockError("Incorrect PIN");
+      return;
+    }
+    if (response.status === "locked") {
+      const retryAt = new Date(response.retry_after).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+      setUnlockError(`Too many incorrect PINs. Try again at ${retryAt}.`);
+      return;
+    }
+
+    setDeskSession({ id: response.session_id, operatorName: response.operator_name });
+    handleUnlockOpenChange(false);
+  };
+
+  // Any tap or key press keeps the desk open; silence locks it back to the idle screen
+  useEffect(() => {
+    if (!deskSession) return;
+
+    let timeout = setTimeout(lockDesk, IDLE_TIMEOUT_MS);
+    const resetTimer = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(lockDesk, IDLE_TIMEOUT_MS);
+    };
+
+    window.addEventListener("pointerdown", resetTimer);
+    window.addEventListener("keydown", resetTimer);
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener("pointerdown", resetTimer);
+      window.removeEventListener("keydown", resetTimer);
+    };
+  }, [deskSession, lockDesk]);
+
+  const searchMembers = useCallback(async (query: string) => {
+    if (!gymId || !deskSession) return;
+
+    setIsSearching(true);
+    const { data, error } = await supabase.rpc("kiosk_search_members", {
+      _gym_id: gymId,
+      _session_id: deskSession.id,
+      _query: query,
+    });
+    setIsSearching(false);
+
+    if (error) {
+      console.error("Error searching members:", error);
+      toast.error(error.message || "Failed to search members");
+      if (isKioskLocked(error)) lockDesk();
+      return;
+    }
+
+    setResults(data || []);
+  }, [gymId, deskSession, lockDesk]);
+
+  useEffect(() => {
+    const query = search.trim();
+    if (query.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => searchMembers(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, searchMembers]);
+
+  const handleCheckIn = async (member: KioskMember) => {
+    if (!gymId || !deskSession) return;
+
+    setCheckingInId(member.user_id);
+    const { data, error } = await supabase.rpc("kiosk_check_in", {
+      _gym_id: gymId,
+      _session_id: deskSession.id,
+      _user_id: member.user_id,
+    });
+    setCheckingInId(null);
+
+    if (error) {
+      console.error("Kiosk check-in error:", error);
+      toast.error(error.message || "Failed to check in");
+      if (isKioskLocked(error)) lockDesk();
+      return;
+    }
+
+    const response = data as unknown as KioskCheckInResponse;
+    if (response.status === "rejected") {
+      toast.error(`${response.name} could not be checked in`, {
+        description: getCheckInRejectionMessage(response),
+      });
+      return;
+    }
+
+    toast.success(`${response.name} checked in`, {
+      description: response.points_awarded > 0 ? `+${response.points_awarded} points` : "Visit recorded; no points left to earn today",
+    });
+    setResults((current) =>
+      current.map((m) => (m.user_id === member.user_id ? { ...m, checked_in_today: true } : m))
+    );
+    refreshLeaders();
+  };
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => document.removeEventListener("fullscreenchange", handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {
+        toast.error("Full screen is not available on this device");
+      });
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col p-8 gap-8">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex items-center justify-between gap-4"
+      >
+        <div className="flex items-center gap-4">
+          {gym?.logo_url ? (
+            <img src={gym.logo_url} alt={gym.name} className="w-16 h-16 rounded-2xl object-cover" />
+          ) : (
+            <div className="w-16 h-16 rounded-2xl bg-secondary flex items-center justify-center">
+              <Building2 className="w-8 h-8 text-muted-foreground" />
+            </div>
+          )}
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">{gym?.name || "Check In"}</h1>
+            {gym?.tagline && <p className="text-muted-foreground">{gym.tagline}</p>}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={toggleFullscreen} className="rounded-xl">
+            {isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+          </Button>
+          {deskSession ? (
+            <Button variant="secondary" onClick={lockDesk} className="rounded-xl gap-2">
+              <Lock className="w-4 h-4" />
+              Lock
+            </Button>
+          ) : (
+            <Button variant="secondary" onClick={() => handleUnlockOpenChange(true)} className="rounded-xl gap-2">
+              <UserCheck className="w-4 h-4" />
+              Front Desk
+            </Button>
+          )}
+        </div>
+      </motion.div>
+
+      <div className="flex-1 grid gap-8 lg:grid-cols-[auto_1fr] items-start justify-center">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ delay: 0.1 }}
+          className="glass rounded-3xl p-8 flex flex-col items-center gap-6"
+        >
+          {error ? (
+            <div className="w-72 h-72 flex flex-col items-center justify-center text-center gap-4">
+              <p className="text-destructive">{error}</p>
+              <Button variant="secondary" onClick={refreshToken} className="gap-2">
+                <RefreshCw className="w-4 h-4" />
+                Retry
+              </Button>
+            </div>
+          ) : qrToken ? (
+            <div className="bg-white p-6 rounded-2xl">
+              <QRCodeSVG value={qrToken.token} size={288} />
+            </div>
+          ) : (
+            <div className="w-72 h-72 flex items-center justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          )}
+          <div className="text-center">
+            <p className="text-xl font-semibold text-foreground">Scan to check in</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Open the app, tap Check In and point your camera at this code
+            </p>
+          </div>
+        </motion.div>
+
+        {deskSession ? (
+          <motion.div
+            key="desk"
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="glass rounded-3xl p-8 flex flex-col gap-6"
+          >
+            <div>
+              <h2 className="text-2xl font-bold text-foreground">Front Desk Check-in</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Unlocked by {deskSession.operatorName}. Search a member by name. This screen locks after a
+                minute without activity.
+              </p>
+            </div>
+
+            <div className="relative">
+              <Search className="w-5 h-5 text-muted-foreground absolute left-4 top-1/2 -translate-y-1/2" />
+              <Input
+                autoFocus
+                placeholder="Member name"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="h-14 pl-12 text-lg bg-background border-border rounded-2xl"
+              />
+            </div>
+
+            {isSearching ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : search.trim().length < 2 ? (
+              <p className="text-center text-muted-foreground py-8">Type at least 2 letters of a name.</p>
+            ) : results.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No members match "{search.trim()}".</p>
+            ) : (
+              <div className="space-y-2">
+                {results.map((member) => (
+                  <div
+                    key={member.user_id}
+                    className="flex items-center justify-between gap-4 rounded-2xl bg-secondary/50 p-4"
+                  >
+                    <span className="text-lg font-medium text-foreground">{member.name || "Member"}</span>
+                    {member.checked_in_today ? (
+                      <span className="flex items-center gap-1 text-sm font-medium text-primary">
+                        <Check className="w-4 h-4" />
+                        Checked in today
+                      </span>
+                    ) : (
+                      <Button
+                        onClick={() => handleCheckIn(member)}
+                        disabled={checkingInId !== null}
+                        className="rounded-xl gap-2"
+                      >
+                        {checkingInId === member.user_id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <UserCheck className="w-4 h-4" />
+                        )}
+                        Check In
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        ) : (
+          <motion.div
+            key="leaders"
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.2 }}
+            className="glass rounded-3xl p-8 flex flex-col gap-6"
+          >
+            <div className="flex items-center gap-3">
+              <Trophy className="w-6 h-6 text-primary" />
+              <h2 className="text-2xl font-bold text-foreground">Today's Top Members</h2>
+            </div>
+
+            {leaders.length === 0 ? (
+              <p className="text-muted-foreground py-8 text-center">
+                No points earned yet today. Be the first!
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {leaders.map((leader) => (
+                  <div
+                    key={leader.rank}
+                    className="flex items-center gap-4 rounded-2xl bg-secondary/50 p-4"
+                  >
+                    <span className="w-10 h-10 rounded-xl bg-primary/10 text-primary font-bold flex items-center justify-center">
+                      {leader.rank}
+                    </span>
+                    <span className="flex-1 text-lg font-medium text-foreground">{leader.name}</span>
+                    <span className="text-lg font-semibold text-primary">
+                      {leader.points.toLocaleString()} pts
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </div>
+
+      <Dialog open={isUnlockOpen} onOpenChange={handleUnlockOpenChange}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Unlock front desk</DialogTitle>
+            <DialogDescription>Enter your staff PIN to check members in.</DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleUnlock();
+            }}
+            className="space-y-4"
+          >
+            <Input
+              autoFocus
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              placeholder="PIN"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              className="h-14 text-center text-2xl tracking-widest bg-background border-border rounded-2xl"
+            />
+            {unlockError && <p className="text-sm text-destructive text-center">{unlockError}</p>}
+            <Button type="submit" disabled={isUnlocking || pin === ""} className="w-full h-12 rounded-xl gap-2">
+              {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+              Unlock
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Kiosk;
@@ -1,24 +1,49 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { Trophy, Medal, ChevronUp, ChevronDown, Globe, Building2 } from "lucide-react";
+import { Trophy, Medal, Globe, Building2 } from "lucide-react";
 import { BottomNav } from "@/components/member/BottomNav";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 
-type Period = "week" | "month";
 type Scope = "gym" | "all";
+type Period = "week" | "month" | "all";
 
 interface LeaderboardEntry {
+  userId: string;
   rank: number;
   name: string;
   points: number;
   visits: number;
-  change: number;
   isCurrentUser?: boolean;
   gymName?: string;
 }
 
+interface Winner {
+  id: string;
+  period_start: string;
+  name: string;
+  rank: number;
+  points: number;
+}
+
+// Number of top members shown; the current user is always included
+const LEADERBOARD_LIMIT = 50;
+
+const periodLabels: Record<Period, string> = {
+  week: "This Week",
+  month: "This Month",
+  all: "All Time",
+};
+
+const formatPeriodStart = (period: Period, periodStart: string) => {
+  const date = new Date(`${periodStart}T00:00:00`);
+  return period === "month"
+    ? date.toLocaleDateString(undefined, { month: "long", year: "numeric" })
+    : `Week of ${date.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+};
+
 const getRankIcon = (rank: number) => {
   switch (rank) {
     case 1:
@@ -33,125 +58,80 @@ const getRankIcon = (rank: number) => {
 };
 
 const Leaderboard = () => {
-  const [period, setPeriod] = useState<Period>("week");
   const [scope, setScope] = useState<Scope>("gym");
+  const [period, setPeriod] = useState<Period>("week");
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
-  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [gymName, setGymName] = useState<string>("FitDash Pro");
+  const [memberCount, setMemberCount] = useState(0);
+  const [winners, setWinners] = useState<Winner[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const fetchLeaderboard = async () => {
       setLoading(true);
-      
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-      
-      setCurrentUserId(user.id);
-
-      // Get user's gym
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("gym_id")
-        .eq("user_id", user.id)
-        .maybeSingle();
-
-      if (scope === "gym") {
-        if (!profile?.gym_id) {
-          setLoading(false);
-          return;
-        }
 
-        // Get gym name
-        const { data: gym } = await supabase
-          .from("gyms")
-          .select("name")
-          .eq("id", profile.gym_id)
-          .maybeSingle();
-
-        if (gym?.name) {
-          setGymName(gym.name);
-        }
+      const { data, error } = await supabase.rpc("get_leaderboard", {
+        _scope: scope,
+        _period: period,
+        _limit: LEADERBOARD_LIMIT,
+      });
+
+      if (error) {
+        console.error("Error loading leaderboard:", error);
+        setLeaderboard([]);
+        setLoading(false);
+        return;
+      }
 
-        // Get all members of the same gym
-        const { data: members } = await supabase
-          .from("profiles")
-          .select("user_id, name")
-          .eq("gym_id", profile.gym_id);
+      const rows = data || [];
+      const leaderboardData: LeaderboardEntry[] = rows.map((row) => ({
+        userId: row.user_id,
+        rank: row.rank,
+        name: row.name || "Unknown",
+        points: row.points,
+        visits: row.visits,
+        isCurrentUser: row.is_current_user,
+        gymName: row.gym_name,
+      }));
 
-        if (!members || members.length === 0) {
-          setLeaderboard([]);
-          setLoading(false);
-          return;
+      if (scope === "gym") {
+        if (rows[0]?.gym_name) {
+          setGymName(rows[0].gym_name);
         }
-
-        // Generate mock points/visits for demo
-        const leaderboardData: LeaderboardEntry[] = members.map((member) => ({
-          rank: 0,
-          name: member.name || "Unknown",
-          points: Math.floor(Math.random() * 2000) + 500,
-          visits: Math.floor(Math.random() * 20) + 5,
-          change: Math.floor(Math.random() * 5) - 2,
-          isCurrentUser: member.user_id === user.id,
-        }));
-
-        // Sort by points and assign ranks
-        leaderboardData.sort((a, b) => b.points - a.points);
-        leaderboardData.forEach((entry, index) => {
-          entry.rank = index + 1;
-        });
-
-        setLeaderboard(leaderboardData);
       } else {
-        // Fetch all members across all gyms
         setGymName("All Gyms");
+      }
 
-        // Only fetch members who have joined a gym
-        const { data: allMembers } = await supabase
-          .from("profiles")
-          .select("user_id, name, gym_id")
-          .not("gym_id", "is", null);
-
-        if (!allMembers || allMembers.length === 0) {
-          setLeaderboard([]);
-          setLoading(false);
-          return;
-        }
-
-        // Get gym names for all unique gym_ids
-        const gymIds = [...new Set(allMembers.filter(m => m.gym_id).map(m => m.gym_id))];
-        const { data: gyms } = await supabase
-          .from("gyms")
-          .select("id, name")
-          .in("id", gymIds);
-
-        const gymMap = new Map(gyms?.map(g => [g.id, g.name]) || []);
-
-        // Generate mock points/visits for demo
-        const leaderboardData: LeaderboardEntry[] = allMembers.map((member) => ({
-          rank: 0,
-          name: member.name || "Unknown",
-          points: Math.floor(Math.random() * 2000) + 500,
-          visits: Math.floor(Math.random() * 20) + 5,
-          change: Math.floor(Math.random() * 5) - 2,
-          isCurrentUser: member.user_id === user.id,
-          gymName: member.gym_id ? gymMap.get(member.gym_id) || "Unknown Gym" : "No Gym",
-        }));
+      setLeaderboard(leaderboardData);
+      setMemberCount(rows[0]?.member_count || 0);
+      setLoading(false);
+    };
 
-        // Sort by points and assign ranks
-        leaderboardData.sort((a, b) => b.points - a.points);
-        leaderboardData.forEach((entry, index) => {
-          entry.rank = index + 1;
-        });
+    fetchLeaderboard();
+  }, [scope, period]);
 
-        setLeaderboard(leaderboardData);
+  // Podium of the previous week or month, archived per gym when the period resets
+  useEffect(() => {
+    const fetchWinners = async () => {
+      if (scope !== "gym" || period === "all") {
+        setWinners([]);
+        return;
       }
 
-      setLoading(false);
+      const { data } = await supabase
+        .from("leaderboard_winners")
+        .select("id, period_start, name, rank, points")
+        .eq("period", period)
+        .order("period_start", { ascending: false })
+        .order("rank", { ascending: true })
+        .limit(3);
+
+      const latest = data?.[0]?.period_start;
+      setWinners((data || []).filter((winner) => winner.period_start === latest));
     };
 
-    fetchLeaderboard();
-  }, [period, scope]);
+    fetchWinners();
+  }, [scope, period]);
 
   const currentUserEntry = leaderboard.find((e) => e.isCurrentUser);
 
@@ -211,29 +191,21 @@ const Leaderboard = () => {
           </Button>
         </motion.div>
 
-        {/* Period Toggle */}
+        {/* Period Tabs */}
         <motion.div
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.1 }}
-          className="flex gap-2 p-1 glass rounded-xl"
         >
-          <Button
-            variant={period === "week" ? "default" : "ghost"}
-            size="sm"
-            onClick={() => setPeriod("week")}
-            className="flex-1"
-          >
-            This Week
-          </Button>
-          <Button
-            variant={period === "month" ? "default" : "ghost"}
-            size="sm"
-            onClick={() => setPeriod("month")}
-            className="flex-1"
-          >
-            This Month
-          </Button>
+          <Tabs value={period} onValueChange={(value) => setPeriod(value as Period)}>
+            <TabsList className="w-full glass rounded-xl p-1">
+              {(Object.keys(periodLabels) as Period[]).map((key) => (
+                <TabsTrigger key={key} value={key} className="flex-1 rounded-lg">
+                  {periodLabels[key]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
         </motion.div>
 
         {/* Current User Highlight */}
@@ -252,31 +224,48 @@ const Leaderboard = () => {
                   </span>
                 </div>
                 <div>
-                  <p className="font-semibold text-foreground">Your Ranking</p>
+                  <p className="font-semibold text-foreground">
+                    Your Ranking
+                    <span className="text-sm font-normal text-muted-foreground"> of {memberCount}</span>
+                  </p>
                   <p className="text-sm text-muted-foreground">
                     {currentUserEntry.points.toLocaleString()} pts · {currentUserEntry.visits} visits
                   </p>
                 </div>
               </div>
-              <div className={cn(
-                "flex items-center gap-1 text-sm font-medium",
-                currentUserEntry.change > 0 ? "text-primary" : 
-                currentUserEntry.change < 0 ? "text-destructive" : "text-muted-foreground"
-              )}>
-                {currentUserEntry.change > 0 ? (
-                  <>
-                    <ChevronUp className="w-4 h-4" />
-                    {currentUserEntry.change}
-                  </>
-                ) : currentUserEntry.change < 0 ? (
-                  <>
-                    <ChevronDown className="w-4 h-4" />
-                    {Math.abs(currentUserEntry.change)}
-                  </>
-                ) : (
-                  "—"
-                )}
-              </div>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Previous Period Winners */}
+        {winners.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.18 }}
+            className="glass rounded-2xl p-4"
+          >
+            <div className="flex items-center gap-2 mb-3">
+              <Medal className="w-4 h-4 text-primary" />
+              <p className="text-sm font-semibold text-foreground">
+                {period === "week" ? "Last Week's" : "Last Month's"} Winners
+              </p>
+              <span className="text-xs text-muted-foreground ml-auto">
+                {formatPeriodStart(period, winners[0].period_start)}
+              </span>
+            </div>
+            <div className="space-y-2">
+              {winners.map((winner) => (
+                <div key={winner.id} className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="w-8 text-center">{getRankIcon(winner.rank)}</div>
+                    <span className="text-sm text-foreground">{winner.name}</span>
+                  </div>
+                  <span className="text-sm text-muted-foreground">
+                    {winner.points.toLocaleString()} pts
+                  </span>
+                </div>
+              ))}
             </div>
           </motion.div>
         )}
@@ -300,7 +289,7 @@ const Leaderboard = () => {
             <div className="divide-y divide-border">
               {leaderboard.map((entry, index) => (
                 <motion.div
-                  key={entry.rank}
+                  key={entry.userId}
                   initial={{ opacity: 0, x: -20 }}
                   animate={{ opacity: 1, x: 0 }}
                   transition={{ delay: 0.2 + index * 0.03 }}
@@ -326,18 +315,9 @@ const Leaderboard = () => {
                       </p>
                     </div>
                   </div>
-                  <div className="flex items-center gap-4">
-                    <span className="font-semibold text-foreground">
-                      {entry.points.toLocaleString()} pts
-                    </span>
-                    <div className={cn(
-                      "w-8 text-right text-sm font-medium",
-                      entry.change > 0 ? "text-primary" : 
-                      entry.change < 0 ? "text-destructive" : "text-muted-foreground"
-                    )}>
-                      {entry.change > 0 ? `+${entry.change}` : entry.change === 0 ? "—" : entry.change}
-                    </div>
-                  </div>
+                  <span className="font-semibold text-foreground">
+                    {entry.points.toLocaleString()} pts
+                  </span>
                 </motion.div>
               ))}
             </div>
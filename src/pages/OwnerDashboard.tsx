@@ -7,8 +7,18 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RewardsManager } from "@/components/owner/RewardsManager";
+import { RedemptionsQueue } from "@/components/owner/RedemptionsQueue";
+import { CheckInRejectionsLog } from "@/components/owner/CheckInRejectionsLog";
+import { WorkoutTemplatesManager } from "@/components/owner/WorkoutTemplatesManager";
+import { PointsRulesManager } from "@/components/owner/PointsRulesManager";
+import { KioskPinButton } from "@/components/owner/KioskPinButton";
+import { Equipment, equipmentLabels } from "@/lib/exerciseCatalog";
+import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { 
   Building2, 
@@ -27,14 +37,51 @@ import {
   TrendingUp,
   Activity,
   Flame,
-  Calendar
+  Calendar,
+  Target,
+  Ticket,
+  QrCode,
+  ExternalLink,
+  LocateFixed,
+  ClipboardList,
+  Coins
 } from "lucide-react";
 import { z } from "zod";
 
+const weekStartOptions = [
+  { value: 0, label: "Sunday" },
+  { value: 1, label: "Monday" },
+  { value: 6, label: "Saturday" },
+];
+
+function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const isCoordinate = (limit: number) => (value: string) =>
+  value === "" || (Number.isFinite(Number(value)) && Math.abs(Number(value)) <= limit);
+
 const gymSchema = z.object({
   name: z.string().min(2, "Gym name must be at least 2 characters").max(100, "Gym name must be less than 100 characters"),
   tagline: z.string().max(200, "Tagline must be less than 200 characters").optional(),
   city: z.string().max(100, "City must be less than 100 characters").optional(),
+  timezone: z.string().refine(isValidTimezone, "Enter a valid IANA timezone, e.g. America/New_York"),
+  week_start: z.number().int().min(0).max(6),
+  allow_manual_check_in: z.boolean(),
+  latitude: z.string().trim().refine(isCoordinate(90), "Latitude must be between -90 and 90"),
+  longitude: z.string().trim().refine(isCoordinate(180), "Longitude must be between -180 and 180"),
+  check_in_radius_m: z.number().int().min(25, "Radius must be at least 25 m").max(5000, "Radius must be at most 5000 m"),
+  check_in_cooldown_minutes: z.number().int().min(0, "Cooldown cannot be negative").max(1440, "Cooldown must be at most 1440 minutes"),
+  max_daily_check_ins: z.number().int().min(1, "Allow at least 1 point-earning check-in per day").max(10, "At most 10 point-earning check-ins per day"),
+  max_workout_minutes: z.number().int().min(10, "Allow at least 10 minutes").max(600, "At most 600 minutes"),
+}).refine((gym) => (gym.latitude.trim() === "") === (gym.longitude.trim() === ""), {
+  message: "Enter both latitude and longitude, or leave both empty",
+  path: ["longitude"],
 });
 
 const partnerSchema = z.object({
@@ -53,6 +100,16 @@ interface Gym {
   city: string | null;
   logo_url: string | null;
   owner_id: string;
+  timezone: string;
+  week_start: number;
+  allow_manual_check_in: boolean;
+  latitude: number | null;
+  longitude: number | null;
+  check_in_radius_m: number;
+  check_in_cooldown_minutes: number;
+  max_daily_check_ins: number;
+  max_workout_minutes: number;
+  equipment: string[] | null;
 }
 
 interface Member {
@@ -63,16 +120,25 @@ interface Member {
   total_points: number;
 }
 
+interface LastWeekSummary {
+  visits: number;
+  goal: number | null;
+  goal_met: boolean;
+  streak: number;
+}
+
 interface MemberWithStats extends Member {
   visits_this_week: number;
   last_visit: string | null;
   total_visits: number;
+  last_week: LastWeekSummary | null;
 }
 
 interface DashboardStats {
   totalMembers: number;
   visitsThisWeek: number;
   activeMembers: number;
+  goalsHitLastWeek: number;
   topEngaged: MemberWithStats[];
 }
 
@@ -94,10 +160,12 @@ const OwnerDashboard = () => {
   
   const [gym, setGym] = useState<Gym | null>(null);
   const [members, setMembers] = useState<MemberWithStats[]>([]);
+  const [staffIds, setStaffIds] = useState<string[]>([]);
   const [dashboardStats, setDashboardStats] = useState<DashboardStats>({
     totalMembers: 0,
     visitsThisWeek: 0,
     activeMembers: 0,
+    goalsHitLastWeek: 0,
     topEngaged: [],
   });
   const [partners, setPartners] = useState<Partner[]>([]);
@@ -111,6 +179,17 @@ const OwnerDashboard = () => {
     name: "",
     tagline: "",
     city: "",
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+    week_start: 0,
+    allow_manual_check_in: false,
+    latitude: "",
+    longitude: "",
+    check_in_radius_m: 150,
+    check_in_cooldown_minutes: 240,
+    max_daily_check_ins: 1,
+    max_workout_minutes: 180,
+    equipment_listed: false,
+    equipment: [] as Equipment[],
   });
   const [partnerFormData, setPartnerFormData] = useState({
     company_name: "",
@@ -166,6 +245,17 @@ const OwnerDashboard = () => {
           name: gymData.name,
           tagline: gymData.tagline || "",
           city: gymData.city || "",
+          timezone: gymData.timezone,
+          week_start: gymData.week_start,
+          allow_manual_check_in: gymData.allow_manual_check_in,
+          latitude: gymData.latitude === null ? "" : String(gymData.latitude),
+          longitude: gymData.longitude === null ? "" : String(gymData.longitude),
+          check_in_radius_m: gymData.check_in_radius_m,
+          check_in_cooldown_minutes: gymData.check_in_cooldown_minutes,
+          max_daily_check_ins: gymData.max_daily_check_ins,
+          max_workout_minutes: gymData.max_workout_minutes,
+          equipment_listed: gymData.equipment !== null,
+          equipment: (gymData.equipment ?? []) as Equipment[],
         });
         setLogoPreview(gymData.logo_url);
         
@@ -217,54 +307,92 @@ const OwnerDashboard = () => {
       startOfWeek.setDate(now.getDate() - now.getDay());
       startOfWeek.setHours(0, 0, 0, 0);
 
-      // Fetch all workouts for this gym
-      const { data: workoutsData, error: workoutsError } = await supabase
-        .from("workouts")
+      // Fetch all check-ins for this gym
+      const { data: checkInsData, error: checkInsError } = await supabase
+        .from("check_ins")
         .select("user_id, created_at")
         .eq("gym_id", gymId);
 
-      if (workoutsError) throw workoutsError;
+      if (checkInsError) throw checkInsError;
 
-      // Create a map of user workout stats
-      const userWorkoutStats: Record<string, { total: number; thisWeek: number; lastVisit: string | null }> = {};
+      // Create a map of user visit stats
+      const userVisitStats: Record<string, { total: number; thisWeek: number; lastVisit: string | null }> = {};
       
-      (workoutsData || []).forEach((workout) => {
-        if (!userWorkoutStats[workout.user_id]) {
-          userWorkoutStats[workout.user_id] = { total: 0, thisWeek: 0, lastVisit: null };
+      (checkInsData || []).forEach((checkIn) => {
+        if (!userVisitStats[checkIn.user_id]) {
+          userVisitStats[checkIn.user_id] = { total: 0, thisWeek: 0, lastVisit: null };
         }
-        userWorkoutStats[workout.user_id].total++;
+        userVisitStats[checkIn.user_id].total++;
         
-        const workoutDate = new Date(workout.created_at);
-        if (workoutDate >= startOfWeek) {
-          userWorkoutStats[workout.user_id].thisWeek++;
+        const visitDate = new Date(checkIn.created_at);
+        if (visitDate >= startOfWeek) {
+          userVisitStats[checkIn.user_id].thisWeek++;
         }
         
-        if (!userWorkoutStats[workout.user_id].lastVisit || 
-            workoutDate > new Date(userWorkoutStats[workout.user_id].lastVisit!)) {
-          userWorkoutStats[workout.user_id].lastVisit = workout.created_at;
+        if (!userVisitStats[checkIn.user_id].lastVisit || 
+            visitDate > new Date(userVisitStats[checkIn.user_id].lastVisit!)) {
+          userVisitStats[checkIn.user_id].lastVisit = checkIn.created_at;
         }
       });
 
-      // Merge member data with workout stats
+      // Fetch the most recently settled week for this gym
+      const { data: latestWeek, error: latestWeekError } = await supabase
+        .from("member_weeks")
+        .select("week_start")
+        .eq("gym_id", gymId)
+        .order("week_start", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestWeekError) throw latestWeekError;
+
+      const lastWeekSummaries: Record<string, LastWeekSummary> = {};
+      if (latestWeek) {
+        const { data: memberWeeksData, error: memberWeeksError } = await supabase
+          .from("member_weeks")
+          .select("user_id, visits, goal, goal_met, streak")
+          .eq("gym_id", gymId)
+          .eq("week_start", latestWeek.week_start);
+
+        if (memberWeeksError) throw memberWeeksError;
+
+        (memberWeeksData || []).forEach(({ user_id, ...summary }) => {
+          lastWeekSummaries[user_id] = summary;
+        });
+      }
+
+      // Members who can run the front desk kiosk
+      const { data: staffData, error: staffError } = await supabase
+        .from("gym_staff")
+        .select("user_id")
+        .eq("gym_id", gymId);
+
+      if (staffError) throw staffError;
+
+      // Merge member data with visit stats
       const membersWithStats: MemberWithStats[] = (membersData || []).map((member) => ({
         ...member,
-        visits_this_week: userWorkoutStats[member.user_id]?.thisWeek || 0,
-        last_visit: userWorkoutStats[member.user_id]?.lastVisit || null,
-        total_visits: userWorkoutStats[member.user_id]?.total || 0,
+        visits_this_week: userVisitStats[member.user_id]?.thisWeek || 0,
+        last_visit: userVisitStats[member.user_id]?.lastVisit || null,
+        total_visits: userVisitStats[member.user_id]?.total || 0,
+        last_week: lastWeekSummaries[member.user_id] || null,
       }));
 
       // Calculate dashboard stats
       const visitsThisWeek = membersWithStats.reduce((sum, m) => sum + m.visits_this_week, 0);
       const activeMembers = membersWithStats.filter((m) => m.visits_this_week > 0).length;
+      const goalsHitLastWeek = membersWithStats.filter((m) => m.last_week?.goal_met).length;
       const topEngaged = [...membersWithStats]
         .sort((a, b) => b.total_points - a.total_points)
         .slice(0, 5);
 
       setMembers(membersWithStats);
+      setStaffIds((staffData || []).map((staff) => staff.user_id));
       setDashboardStats({
         totalMembers: membersWithStats.length,
         visitsThisWeek,
         activeMembers,
+        goalsHitLastWeek,
         topEngaged,
       });
     } catch (error) {
@@ -275,6 +403,29 @@ const OwnerDashboard = () => {
     }
   };
 
+  const handleToggleStaff = async (member: MemberWithStats, isStaff: boolean) => {
+    if (!gym) return;
+
+    const { error } = isStaff
+      ? await supabase.from("gym_staff").insert({ gym_id: gym.id, user_id: member.user_id })
+      : await supabase.from("gym_staff").delete().eq("gym_id", gym.id).eq("user_id", member.user_id);
+
+    if (error) {
+      console.error("Error updating staff:", error);
+      toast.error("Failed to update front desk access");
+      return;
+    }
+
+    setStaffIds((current) =>
+      isStaff ? [...current, member.user_id] : current.filter((id) => id !== member.user_id)
+    );
+    toast.success(
+      isStaff
+        ? `${member.name || "Member"} can now run the front desk kiosk`
+        : `${member.name || "Member"} no longer has front desk access`
+    );
+  };
+
   const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !user) return;
@@ -348,6 +499,17 @@ const OwnerDashboard = () => {
             name: formData.name,
             tagline: formData.tagline || null,
             city: formData.city || null,
+            timezone: formData.timezone,
+            week_start: formData.week_start,
+            allow_manual_check_in: formData.allow_manual_check_in,
+            latitude: formData.latitude.trim() === "" ? null : Number(formData.latitude),
+            longitude: formData.longitude.trim() === "" ? null : Number(formData.longitude),
+            check_in_radius_m: formData.check_in_radius_m,
+            check_in_cooldown_minutes: formData.check_in_cooldown_minutes,
+            max_daily_check_ins: formData.max_daily_check_ins,
+            max_workout_minutes: formData.max_workout_minutes,
+            // NULL leaves suggestions unrestricted; an empty list means bodyweight only
+            equipment: formData.equipment_listed ? formData.equipment : null,
             logo_url: logoPreview,
           })
           .eq("id", gym.id);
@@ -363,6 +525,17 @@ const OwnerDashboard = () => {
             name: formData.name,
             tagline: formData.tagline || null,
             city: formData.city || null,
+            timezone: formData.timezone,
+            week_start: formData.week_start,
+            allow_manual_check_in: formData.allow_manual_check_in,
+            latitude: formData.latitude.trim() === "" ? null : Number(formData.latitude),
+            longitude: formData.longitude.trim() === "" ? null : Number(formData.longitude),
+            check_in_radius_m: formData.check_in_radius_m,
+            check_in_cooldown_minutes: formData.check_in_cooldown_minutes,
+            max_daily_check_ins: formData.max_daily_check_ins,
+            max_workout_minutes: formData.max_workout_minutes,
+            // NULL leaves suggestions unrestricted; an empty list means bodyweight only
+            equipment: formData.equipment_listed ? formData.equipment : null,
             logo_url: logoPreview,
           })
           .select()
@@ -380,6 +553,25 @@ const OwnerDashboard = () => {
     }
   };
 
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error("Location is not available in this browser");
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setFormData(prev => ({
+          ...prev,
+          latitude: position.coords.latitude.toFixed(6),
+          longitude: position.coords.longitude.toFixed(6),
+        }));
+      },
+      () => toast.error("Could not get your current location"),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
   const handleSignOut = async () => {
     await signOut();
     navigate("/auth?type=owner");
@@ -517,6 +709,18 @@ const OwnerDashboard = () => {
               <Trophy className="w-4 h-4" />
               Rewards
             </TabsTrigger>
+            <TabsTrigger value="points" className="rounded-lg gap-2">
+              <Coins className="w-4 h-4" />
+              Points
+            </TabsTrigger>
+            <TabsTrigger value="redemptions" className="rounded-lg gap-2">
+              <Ticket className="w-4 h-4" />
+              Redemptions
+            </TabsTrigger>
+            <TabsTrigger value="templates" className="rounded-lg gap-2">
+              <ClipboardList className="w-4 h-4" />
+              Templates
+            </TabsTrigger>
             <TabsTrigger value="partners" className="rounded-lg gap-2">
               <Handshake className="w-4 h-4" />
               Partners
@@ -618,6 +822,244 @@ const OwnerDashboard = () => {
                     )}
                   </div>
 
+                  <div className="space-y-2">
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="timezone" className="text-foreground">Timezone</Label>
+                        <Input
+                          id="timezone"
+                          type="text"
+                          placeholder="America/New_York"
+                          value={formData.timezone}
+                          onChange={(e) => setFormData(prev => ({ ...prev, timezone: e.target.value }))}
+                          className={`h-12 bg-muted/50 border-border rounded-xl ${errors.timezone ? "border-destructive" : ""}`}
+                        />
+                        {errors.timezone && (
+                          <p className="text-sm text-destructive">{errors.timezone}</p>
+                        )}
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label className="text-foreground">Week Starts On</Label>
+                        <Select
+                          value={String(formData.week_start)}
+                          onValueChange={(value) => setFormData(prev => ({ ...prev, week_start: Number(value) }))}
+                        >
+                          <SelectTrigger className="h-12 bg-muted/50 border-border rounded-xl">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {weekStartOptions.map((option) => (
+                              <SelectItem key={option.value} value={String(option.value)}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Weekly goals and streaks roll over at midnight on this day in your gym's timezone.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="latitude" className="text-foreground">Latitude</Label>
+                        <Input
+                          id="latitude"
+                          inputMode="decimal"
+                          placeholder="40.712776"
+                          value={formData.latitude}
+                          onChange={(e) => setFormData(prev => ({ ...prev, latitude: e.target.value }))}
+                          className={`h-12 bg-muted/50 border-border rounded-xl ${errors.latitude ? "border-destructive" : ""}`}
+                        />
+                        {errors.latitude && (
+                          <p className="text-sm text-destructive">{errors.latitude}</p>
+                        )}
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="longitude" className="text-foreground">Longitude</Label>
+                        <Input
+                          id="longitude"
+                          inputMode="decimal"
+                          placeholder="-74.005974"
+                          value={formData.longitude}
+                          onChange={(e) => setFormData(prev => ({ ...prev, longitude: e.target.value }))}
+                          className={`h-12 bg-muted/50 border-border rounded-xl ${errors.longitude ? "border-destructive" : ""}`}
+                        />
+                        {errors.longitude && (
+                          <p className="text-sm text-destructive">{errors.longitude}</p>
+                        )}
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="check_in_radius_m" className="text-foreground">Check-in Radius (m)</Label>
+                        <Input
+                          id="check_in_radius_m"
+                          type="number"
+                          min={25}
+                          max={5000}
+                          value={formData.check_in_radius_m}
+                          onChange={(e) => setFormData(prev => ({ ...prev, check_in_radius_m: Number(e.target.value) }))}
+                          className={`h-12 bg-muted/50 border-border rounded-xl ${errors.check_in_radius_m ? "border-destructive" : ""}`}
+                        />
+                        {errors.check_in_radius_m && (
+                          <p className="text-sm text-destructive">{errors.check_in_radius_m}</p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <p className="text-xs text-muted-foreground">
+                        Members must be within this distance of your gym to check in. Leave the coordinates empty to turn this off.
+                      </p>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleUseCurrentLocation}
+                        className="shrink-0 gap-2"
+                      >
+                        <LocateFixed className="w-4 h-4" />
+                        Use my location
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="check_in_cooldown_minutes" className="text-foreground">Check-in Cooldown (min)</Label>
+                        <Input
+                          id="check_in_cooldown_minutes"
+                          type="number"
+                          min={0}
+                          max={1440}
+                          value={formData.check_in_cooldown_minutes}
+                          onChange={(e) => setFormData(prev => ({ ...prev, check_in_cooldown_minutes: Number(e.target.value) }))}
+                          className={`h-12 bg-muted/50 border-border rounded-xl ${errors.check_in_cooldown_minutes ? "border-destructive" : ""}`}
+                        />
+                        {errors.check_in_cooldown_minutes && (
+                          <p className="text-sm text-destructive">{errors.check_in_cooldown_minutes}</p>
+                        )}
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="max_daily_check_ins" className="text-foreground">Point-earning Check-ins per Day</Label>
+                        <Input
+                          id="max_daily_check_ins"
+                          type="number"
+                          min={1}
+                          max={10}
+                          value={formData.max_daily_check_ins}
+                          onChange={(e) => setFormData(prev => ({ ...prev, max_daily_check_ins: Number(e.target.value) }))}
+                          className={`h-12 bg-muted/50 border-border rounded-xl ${errors.max_daily_check_ins ? "border-destructive" : ""}`}
+                        />
+                        {errors.max_daily_check_ins && (
+                          <p className="text-sm text-destructive">{errors.max_daily_check_ins}</p>
+                        )}
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="max_workout_minutes" className="text-foreground">Max Workout Length (min)</Label>
+                        <Input
+                          id="max_workout_minutes"
+                          type="number"
+                          min={10}
+                          max={600}
+                          value={formData.max_workout_minutes}
+                          onChange={(e) => setFormData(prev => ({ ...prev, max_workout_minutes: Number(e.target.value) }))}
+                          className={`h-12 bg-muted/50 border-border rounded-xl ${errors.max_workout_minutes ? "border-destructive" : ""}`}
+                        />
+                        {errors.max_workout_minutes && (
+                          <p className="text-sm text-destructive">{errors.max_workout_minutes}</p>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Limits how often members earn check-in points and how long a single logged workout can be.
+                    </p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor="equipment_listed" className="text-foreground">List my equipment</Label>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          When off, exercise suggestions are not limited by equipment.
+                        </p>
+                      </div>
+                      <Switch
+                        id="equipment_listed"
+                        checked={formData.equipment_listed}
+                        onCheckedChange={(checked) => setFormData(prev => ({ ...prev, equipment_listed: checked }))}
+                      />
+                    </div>
+                    {formData.equipment_listed && (
+                      <>
+                        <div className="flex flex-wrap gap-2">
+                          {(Object.keys(equipmentLabels) as Equipment[]).map((item) => {
+                            const owned = formData.equipment.includes(item);
+                            return (
+                              <button
+                                key={item}
+                                type="button"
+                                aria-pressed={owned}
+                                onClick={() =>
+                                  setFormData(prev => ({
+                                    ...prev,
+                                    equipment: owned ? prev.equipment.filter((e) => e !== item) : [...prev.equipment, item],
+                                  }))
+                                }
+                                className={cn(
+                                  "h-9 px-3 rounded-lg text-sm font-medium transition-colors",
+                                  owned ? "bg-primary text-primary-foreground" : "bg-muted/50 text-muted-foreground hover:text-foreground"
+                                )}
+                              >
+                                {equipmentLabels[item]}
+                              </button>
+                            );
+                          })}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Exercise suggestions only use equipment you select here, plus bodyweight moves. Select nothing if your gym is bodyweight only.
+                        </p>
+                      </>
+                    )}
+                  </div>
+
+                  <div className="space-y-3 rounded-xl bg-muted/50 p-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor="allow_manual_check_in" className="text-foreground">Allow manual check-in</Label>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          When off, members must scan the rotating QR code shown on your front desk kiosk.
+                        </p>
+                      </div>
+                      <Switch
+                        id="allow_manual_check_in"
+                        checked={formData.allow_manual_check_in}
+                        onCheckedChange={(checked) => setFormData(prev => ({ ...prev, allow_manual_check_in: checked }))}
+                      />
+                    </div>
+                    {gym && (
+                      <>
+                        <Button
+                          variant="secondary"
+                          onClick={() => window.open(`/kiosk/${gym.id}`, "_blank")}
+                          className="w-full rounded-xl gap-2"
+                        >
+                          <QrCode className="w-4 h-4" />
+                          Open Check-in Kiosk
+                          <ExternalLink className="w-4 h-4" />
+                        </Button>
+                        <KioskPinButton gymId={gym.id} />
+                      </>
+                    )}
+                  </div>
+
                   <Button 
                     onClick={handleSave} 
                     disabled={isSaving}
@@ -645,7 +1087,7 @@ const OwnerDashboard = () => {
             >
               {/* Stats Cards */}
               {gym && !isMembersLoading && members.length > 0 && (
-                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
                   <div className="bg-card border border-border rounded-2xl p-5">
                     <div className="flex items-center gap-3 mb-2">
                       <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
@@ -694,6 +1136,16 @@ const OwnerDashboard = () => {
                         : "0"}
                     </p>
                   </div>
+
+                  <div className="bg-card border border-border rounded-2xl p-5">
+                    <div className="flex items-center gap-3 mb-2">
+                      <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                        <Target className="w-5 h-5 text-primary" />
+                      </div>
+                      <span className="text-sm text-muted-foreground">Goals Hit Last Week</span>
+                    </div>
+                    <p className="text-3xl font-bold text-foreground">{dashboardStats.goalsHitLastWeek}</p>
+                  </div>
                 </div>
               )}
 
@@ -762,9 +1214,11 @@ const OwnerDashboard = () => {
                           <TableHead className="font-semibold">Email</TableHead>
                           <TableHead className="font-semibold">Visits This Week</TableHead>
                           <TableHead className="font-semibold">Total Visits</TableHead>
+                          <TableHead className="font-semibold">Last Week</TableHead>
                           <TableHead className="font-semibold">Points</TableHead>
                           <TableHead className="font-semibold">Last Visit</TableHead>
                           <TableHead className="font-semibold">Joined</TableHead>
+                          <TableHead className="font-semibold">Front Desk</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -784,6 +1238,16 @@ const OwnerDashboard = () => {
                               </span>
                             </TableCell>
                             <TableCell className="text-muted-foreground">{member.total_visits}</TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {member.last_week ? (
+                                <span className={member.last_week.goal_met ? "text-primary font-medium" : ""}>
+                                  {member.last_week.visits}/{member.last_week.goal ?? "–"}
+                                  {member.last_week.goal_met && ` · ${member.last_week.streak}w streak`}
+                                </span>
+                              ) : (
+                                "—"
+                              )}
+                            </TableCell>
                             <TableCell className="font-medium text-primary">{member.total_points}</TableCell>
                             <TableCell className="text-muted-foreground">
                               {member.last_visit 
@@ -793,6 +1257,12 @@ const OwnerDashboard = () => {
                             <TableCell className="text-muted-foreground">
                               {new Date(member.created_at).toLocaleDateString()}
                             </TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={staffIds.includes(member.user_id)}
+                                onCheckedChange={(checked) => handleToggleStaff(member, checked)}
+                              />
+                            </TableCell>
                           </TableRow>
                         ))}
                       </TableBody>
@@ -800,6 +1270,13 @@ const OwnerDashboard = () => {
                   </div>
                 )}
               </div>
+
+              {gym && (
+                <CheckInRejectionsLog
+                  gymId={gym.id}
+                  memberNames={Object.fromEntries(members.map((member) => [member.user_id, member.name]))}
+                />
+              )}
             </motion.div>
           </TabsContent>
 
@@ -809,10 +1286,69 @@ const OwnerDashboard = () => {
               animate={{ opacity: 1, y: 0 }}
               className="bg-card border border-border rounded-3xl p-8"
             >
-              <h2 className="text-2xl font-bold text-foreground mb-4">Rewards</h2>
-              <p className="text-muted-foreground">
-                Rewards configuration coming soon. You'll be able to create and manage rewards for your members here.
-              </p>
+              <h2 className="text-2xl font-bold text-foreground mb-6">Rewards</h2>
+
+              {!gym ? (
+                <p className="text-muted-foreground text-center py-8">
+                  Please create your gym first in the Configuration tab.
+                </p>
+              ) : (
+                <RewardsManager gymId={gym.id} />
+              )}
+            </motion.div>
+          </TabsContent>
+
+          <TabsContent value="points">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-card border border-border rounded-3xl p-8"
+            >
+              <h2 className="text-2xl font-bold text-foreground mb-6">Points Rules</h2>
+
+              {!gym ? (
+                <p className="text-muted-foreground text-center py-8">
+                  Please create your gym first in the Configuration tab.
+                </p>
+              ) : (
+                <PointsRulesManager gymId={gym.id} />
+              )}
+            </motion.div>
+          </TabsContent>
+
+          <TabsContent value="redemptions">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-card border border-border rounded-3xl p-8"
+            >
+              <h2 className="text-2xl font-bold text-foreground mb-6">Redemptions</h2>
+
+              {!gym ? (
+                <p className="text-muted-foreground text-center py-8">
+                  Please create your gym first in the Configuration tab.
+                </p>
+              ) : (
+                <RedemptionsQueue gymId={gym.id} />
+              )}
+            </motion.div>
+          </TabsContent>
+
+          <TabsContent value="templates">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-card border border-border rounded-3xl p-8"
+            >
+              <h2 className="text-2xl font-bold text-foreground mb-6">Workout Templates</h2>
+
+              {!gym ? (
+                <p className="text-muted-foreground text-center py-8">
+                  Please create your gym first in the Configuration tab.
+                </p>
+              ) : (
+                <WorkoutTemplatesManager gymId={gym.id} />
+              )}
             </motion.div>
           </TabsContent>
 
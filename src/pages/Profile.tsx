@@ -11,10 +11,21 @@ import {
   Shield,
   HelpCircle,
   Upload,
-  Building2
+  Building2,
+  QrCode,
+  TrendingUp,
+  Weight,
+  Activity
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { BottomNav } from "@/components/member/BottomNav";
+import { WorkoutTemplatesSection } from "@/components/member/WorkoutTemplatesSection";
+import { PersonalRecordsSection } from "@/components/member/PersonalRecordsSection";
+import { BodyProfileDialog } from "@/components/member/BodyProfileDialog";
+import { TrainingProfileDialog } from "@/components/member/TrainingProfileDialog";
+import { KioskPinButton } from "@/components/owner/KioskPinButton";
+import { BodyProfile, fetchBodyProfile } from "@/lib/calories";
+import { TrainingProfile, experienceLevelLabels, fetchTrainingProfile } from "@/lib/suggestions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -25,6 +36,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
@@ -76,6 +95,8 @@ interface Gym {
   owner_id: string;
 }
 
+const weeklyGoalOptions = [1, 2, 3, 4, 5, 6, 7];
+
 const Profile = () => {
   const navigate = useNavigate();
   const [isOwner, setIsOwner] = useState(false);
@@ -90,7 +111,15 @@ const Profile = () => {
   
   // Member state
   const [memberGymId, setMemberGymId] = useState<string | null>(null);
+  const [staffGymId, setStaffGymId] = useState<string | null>(null);
   const [availableGyms, setAvailableGyms] = useState<Gym[]>([]);
+  const [weeklyGoal, setWeeklyGoal] = useState<number | null>(null);
+  const [isGoalDialogOpen, setIsGoalDialogOpen] = useState(false);
+  const [draftGoal, setDraftGoal] = useState<number | null>(null);
+  const [bodyProfile, setBodyProfile] = useState<BodyProfile | null>(null);
+  const [isBodyProfileDialogOpen, setIsBodyProfileDialogOpen] = useState(false);
+  const [trainingProfile, setTrainingProfile] = useState<TrainingProfile | null>(null);
+  const [isTrainingProfileDialogOpen, setIsTrainingProfileDialogOpen] = useState(false);
   
   // User info
   const [userName, setUserName] = useState("");
@@ -113,15 +142,19 @@ const Profile = () => {
       // Get profile
       const { data: profile } = await supabase
         .from("profiles")
-        .select("name, gym_id")
+        .select("name, gym_id, weekly_goal")
         .eq("user_id", user.id)
         .single();
 
       if (profile) {
         setUserName(profile.name);
         setMemberGymId(profile.gym_id);
+        setWeeklyGoal(profile.weekly_goal);
       }
 
+      setBodyProfile(await fetchBodyProfile(user.id));
+      setTrainingProfile(await fetchTrainingProfile(user.id));
+
       // Check if user is owner
       const { data: roles } = await supabase
         .from("user_roles")
@@ -145,6 +178,16 @@ const Profile = () => {
           setLogoPreview(gym.logo_url);
         }
       } else {
+        // Front desk staff can open their gym's kiosk
+        const { data: staff } = await supabase
+          .from("gym_staff")
+          .select("gym_id")
+          .eq("user_id", user.id)
+          .limit(1)
+          .maybeSingle();
+
+        setStaffGymId(staff?.gym_id || null);
+
         // Load available gyms for member
         const { data: gyms } = await supabase
           .from("gyms")
@@ -271,6 +314,41 @@ const Profile = () => {
     }
   };
 
+  const handleOpenGoalDialog = () => {
+    setDraftGoal(weeklyGoal);
+    setIsGoalDialogOpen(true);
+  };
+
+  const handleSaveGoal = async () => {
+    if (draftGoal === null) return;
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ weekly_goal: draftGoal })
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+
+      // The running week keeps the goal it started with
+      const appliesNextWeek = weeklyGoal !== null && draftGoal !== weeklyGoal;
+      setWeeklyGoal(draftGoal);
+      setIsGoalDialogOpen(false);
+      toast.success(`Weekly goal set to ${draftGoal} visit${draftGoal !== 1 ? "s" : ""}`, {
+        description: appliesNextWeek ? "Your new goal applies from next week" : undefined,
+      });
+    } catch (error) {
+      console.error("Error updating goal:", error);
+      toast.error("Failed to update goal");
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     navigate("/auth");
@@ -400,6 +478,20 @@ const Profile = () => {
                   </SelectContent>
                 </Select>
               </div>
+
+              {staffGymId && (
+                <>
+                  <Button
+                    variant="secondary"
+                    onClick={() => navigate(`/kiosk/${staffGymId}`)}
+                    className="w-full gap-2"
+                  >
+                    <QrCode className="w-4 h-4" />
+                    Open Front Desk Kiosk
+                  </Button>
+                  <KioskPinButton gymId={staffGymId} />
+                </>
+              )}
             </div>
           )}
         </motion.section>
@@ -417,14 +509,37 @@ const Profile = () => {
           <MenuItem
             icon={<Target className="w-5 h-5 text-primary" />}
             label="Weekly Visit Goal"
-            value="4 visits"
+            value={weeklyGoal ? `${weeklyGoal} visit${weeklyGoal !== 1 ? "s" : ""}` : "Not set"}
+            onClick={handleOpenGoalDialog}
+          />
+          <MenuItem
+            icon={<Weight className="w-5 h-5 text-muted-foreground" />}
+            label="Body Profile"
+            value={bodyProfile ? `${bodyProfile.weight_kg} kg` : "Not set"}
+            onClick={() => setIsBodyProfileDialogOpen(true)}
+          />
+          <MenuItem
+            icon={<Activity className="w-5 h-5 text-muted-foreground" />}
+            label="Training Profile"
+            value={trainingProfile ? experienceLevelLabels[trainingProfile.experience_level] : "Not set"}
+            onClick={() => setIsTrainingProfileDialogOpen(true)}
           />
           <MenuItem
             icon={<Calendar className="w-5 h-5 text-muted-foreground" />}
             label="View History"
+            onClick={() => navigate("/history")}
+          />
+          <MenuItem
+            icon={<TrendingUp className="w-5 h-5 text-muted-foreground" />}
+            label="View Progress"
+            onClick={() => navigate("/progress")}
           />
         </motion.section>
 
+        <PersonalRecordsSection />
+
+        <WorkoutTemplatesSection />
+
         {/* Settings Section */}
         <motion.section
           initial={{ opacity: 0, y: 20 }}
@@ -479,6 +594,52 @@ const Profile = () => {
         </motion.p>
       </main>
 
+      <Dialog open={isGoalDialogOpen} onOpenChange={setIsGoalDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Weekly Visit Goal</DialogTitle>
+            <DialogDescription>
+              How many times per week do you want to hit the gym? Changes apply to the current week.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-7 gap-2">
+            {weeklyGoalOptions.map((option) => (
+              <button
+                key={option}
+                onClick={() => setDraftGoal(option)}
+                className={cn(
+                  "h-12 rounded-xl font-semibold transition-colors",
+                  draftGoal === option
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-foreground hover:bg-secondary/80"
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSaveGoal} disabled={saving || draftGoal === null}>
+              {saving ? "Saving..." : "Save Goal"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <BodyProfileDialog
+        open={isBodyProfileDialogOpen}
+        onOpenChange={setIsBodyProfileDialogOpen}
+        profile={bodyProfile}
+        onSaved={setBodyProfile}
+      />
+
+      <TrainingProfileDialog
+        open={isTrainingProfileDialogOpen}
+        onOpenChange={setIsTrainingProfileDialogOpen}
+        profile={trainingProfile}
+        onSaved={setTrainingProfile}
+      />
+
       <BottomNav />
     </div>
   );
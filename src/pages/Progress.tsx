@@ -0,0 +1,346 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { ArrowLeft, Dumbbell, Flame, Loader2, Target, TrendingUp } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, LineChart, XAxis, YAxis } from "recharts";
+import { BottomNav } from "@/components/member/BottomNav";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { CatalogExercise, fetchExerciseCatalog } from "@/lib/exerciseCatalog";
+import { parseWorkoutExercises } from "@/lib/workouts";
+import { ProgressWorkout, getStrengthTrend, getTrackedExercises, getVolumeByMuscleGroup } from "@/lib/progress";
+import { toast } from "sonner";
+
+type Range = "4" | "12" | "26" | "52";
+
+const rangeLabels: Record<Range, string> = {
+  "4": "4W",
+  "12": "12W",
+  "26": "6M",
+  "52": "1Y",
+};
+
+interface WeekProgress {
+  week_start: string;
+  visits: number;
+  goal: number | null;
+  workouts: number;
+  calories: number;
+  minutes: number;
+}
+
+const visitsConfig = {
+  visits: { label: "Visits", color: "hsl(var(--primary))" },
+  goal: { label: "Goal", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const caloriesConfig = {
+  calories: { label: "Calories", color: "hsl(27 96% 61%)" },
+} satisfies ChartConfig;
+
+const volumeConfig = {
+  volume: { label: "Volume (kg)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const strengthConfig = {
+  estimatedMax: { label: "Est. 1RM (kg)", color: "hsl(var(--primary))" },
+  heaviest: { label: "Heaviest set (kg)", color: "hsl(217 91% 60%)" },
+} satisfies ChartConfig;
+
+// week_start is a local calendar day from the database, not a timestamp
+const parseDay = (day: string) => new Date(`${day}T00:00:00`);
+const formatShortDate = (value: string) =>
+  (value.length === 10 ? parseDay(value) : new Date(value)).toLocaleDateString([], { month: "short", day: "numeric" });
+
+function ChartCard({
+  title,
+  icon,
+  summary,
+  delay,
+  children,
+}: {
+  title: string;
+  icon: React.ReactNode;
+  summary?: string;
+  delay: number;
+  children: React.ReactNode;
+}) {
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+      className="glass rounded-2xl p-4 space-y-3"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="font-semibold text-foreground flex items-center gap-2">
+          {icon}
+          {title}
+        </h2>
+        {summary && <span className="text-xs text-muted-foreground">{summary}</span>}
+      </div>
+      {children}
+    </motion.section>
+  );
+}
+
+function EmptyChart({ message }: { message: string }) {
+  return <p className="text-sm text-muted-foreground text-center py-10">{message}</p>;
+}
+
+const Progress = () => {
+  const navigate = useNavigate();
+  const { user, isLoading: authLoading } = useAuth();
+  const [range, setRange] = useState<Range>("12");
+  const [weeks, setWeeks] = useState<WeekProgress[]>([]);
+  const [workouts, setWorkouts] = useState<ProgressWorkout[]>([]);
+  const [catalog, setCatalog] = useState<CatalogExercise[]>([]);
+  const [selectedExercise, setSelectedExercise] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  // Muscle groups of library exercises; free-text names are grouped by keyword without it
+  useEffect(() => {
+    fetchExerciseCatalog()
+      .then(setCatalog)
+      .catch((error) => console.error("Error loading exercise catalog:", error));
+  }, []);
+
+  const fetchProgress = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const { data: weekData, error: weekError } = await supabase.rpc("get_my_weekly_progress", {
+        _weeks: Number(range),
+      });
+      if (weekError) throw weekError;
+
+      const weekRows = (weekData || []) as WeekProgress[];
+      setWeeks(weekRows);
+
+      if (weekRows.length === 0) {
+        setWorkouts([]);
+        return;
+      }
+
+      const { data: workoutData, error: workoutError } = await supabase
+        .from("workouts")
+        .select("created_at, exercises")
+        .eq("user_id", user.id)
+        .gte("created_at", parseDay(weekRows[0].week_start).toISOString())
+        .order("created_at");
+      if (workoutError) throw workoutError;
+
+      setWorkouts(
+        (workoutData || []).map((workout) => ({
+          created_at: workout.created_at,
+          exercises: parseWorkoutExercises(workout.exercises),
+        }))
+      );
+    } catch (error) {
+      console.error("Error loading progress:", error);
+      toast.error("Failed to load progress");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, range]);
+
+  useEffect(() => {
+    fetchProgress();
+  }, [fetchProgress]);
+
+  const volume = useMemo(() => getVolumeByMuscleGroup(workouts, catalog), [workouts, catalog]);
+  const trackedExercises = useMemo(() => getTrackedExercises(workouts), [workouts]);
+
+  // Keep the chosen exercise across range changes while it still has data, else fall back to the most logged one
+  useEffect(() => {
+    if (!trackedExercises.some((exercise) => exercise.key === selectedExercise)) {
+      setSelectedExercise(trackedExercises[0]?.key ?? "");
+    }
+  }, [trackedExercises, selectedExercise]);
+
+  const strengthTrend = useMemo(
+    () => (selectedExercise ? getStrengthTrend(workouts, selectedExercise) : []),
+    [workouts, selectedExercise]
+  );
+
+  const weeksWithGoal = weeks.filter((week) => week.goal !== null);
+  const goalsMet = weeksWithGoal.filter((week) => week.visits >= (week.goal ?? 0)).length;
+  const totalCalories = weeks.reduce((sum, week) => sum + week.calories, 0);
+  const totalVolume = volume.reduce((sum, entry) => sum + entry.volume, 0);
+  const strengthChange =
+    strengthTrend.length > 1
+      ? Math.round((strengthTrend[strengthTrend.length - 1].estimatedMax - strengthTrend[0].estimatedMax) * 10) / 10
+      : null;
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen pb-24">
+      {/* Header */}
+      <header className="px-5 pt-12 pb-4">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-3"
+        >
+          <button
+            onClick={() => navigate("/profile")}
+            className="w-10 h-10 rounded-xl bg-muted flex items-center justify-center"
+          >
+            <ArrowLeft className="w-5 h-5 text-foreground" />
+          </button>
+          <div>
+            <h1 className="text-xl font-bold text-foreground">Progress</h1>
+            <p className="text-sm text-muted-foreground">Your training over time</p>
+          </div>
+        </motion.div>
+      </header>
+
+      <main className="px-5 space-y-5">
+        {/* Range */}
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+          <Tabs value={range} onValueChange={(value) => setRange(value as Range)}>
+            <TabsList className="w-full glass rounded-xl p-1">
+              {(Object.keys(rangeLabels) as Range[]).map((key) => (
+                <TabsTrigger key={key} value={key} className="flex-1 rounded-lg">
+                  {rangeLabels[key]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </motion.div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : weeks.length === 0 ? (
+          <div className="glass rounded-2xl p-8 text-center">
+            <TrendingUp className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">Join a gym to start tracking your progress.</p>
+          </div>
+        ) : (
+          <>
+            {/* Weekly Visits vs Goal */}
+            <ChartCard
+              title="Weekly Visits"
+              icon={<Target className="w-4 h-4 text-primary" />}
+              summary={weeksWithGoal.length > 0 ? `Goal met ${goalsMet}/${weeksWithGoal.length} weeks` : undefined}
+              delay={0.05}
+            >
+              <ChartContainer config={visitsConfig} className="h-48 w-full">
+                <ComposedChart data={weeks} margin={{ left: -24, right: 4 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week_start" tickFormatter={formatShortDate} tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => `Week of ${formatShortDate(String(value))}`} />} />
+                  <Bar dataKey="visits" fill="var(--color-visits)" radius={4} />
+                  <Line dataKey="goal" type="stepAfter" stroke="var(--color-goal)" strokeDasharray="4 4" dot={false} connectNulls />
+                </ComposedChart>
+              </ChartContainer>
+            </ChartCard>
+
+            {/* Calories per Week */}
+            <ChartCard
+              title="Calories Burned"
+              icon={<Flame className="w-4 h-4 text-orange-400" />}
+              summary={`${totalCalories.toLocaleString()} kcal total`}
+              delay={0.1}
+            >
+              <ChartContainer config={caloriesConfig} className="h-48 w-full">
+                <BarChart data={weeks} margin={{ left: -16, right: 4 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week_start" tickFormatter={formatShortDate} tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => `Week of ${formatShortDate(String(value))}`} />} />
+                  <Bar dataKey="calories" fill="var(--color-calories)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            {/* Volume per Muscle Group */}
+            <ChartCard
+              title="Volume by Muscle Group"
+              icon={<Dumbbell className="w-4 h-4 text-blue-400" />}
+              summary={totalVolume > 0 ? `${totalVolume.toLocaleString()} kg lifted` : undefined}
+              delay={0.15}
+            >
+              {volume.length === 0 ? (
+                <EmptyChart message="Log weights on your sets to see training volume." />
+              ) : (
+                <ChartContainer config={volumeConfig} className="w-full" style={{ height: volume.length * 36 + 24 }}>
+                  <BarChart data={volume} layout="vertical" margin={{ left: 8, right: 8 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="group" tickLine={false} axisLine={false} width={72} />
+                    <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                    <Bar dataKey="volume" fill="var(--color-volume)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </ChartCard>
+
+            {/* Strength Trend */}
+            <ChartCard
+              title="Strength Trend"
+              icon={<TrendingUp className="w-4 h-4 text-primary" />}
+              summary={strengthChange !== null ? `${strengthChange >= 0 ? "+" : ""}${strengthChange} kg est. 1RM` : undefined}
+              delay={0.2}
+            >
+              {trackedExercises.length === 0 ? (
+                <EmptyChart message="Log weighted sets to track your strength over time." />
+              ) : (
+                <>
+                  <Select value={selectedExercise} onValueChange={setSelectedExercise}>
+                    <SelectTrigger className="h-10 bg-muted/50 border-border rounded-lg">
+                      <SelectValue placeholder="Choose an exercise" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {trackedExercises.map((exercise) => (
+                        <SelectItem key={exercise.key} value={exercise.key}>
+                          {exercise.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <ChartContainer config={strengthConfig} className="h-48 w-full">
+                    <LineChart data={strengthTrend} margin={{ left: -16, right: 4 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickFormatter={formatShortDate} tickLine={false} axisLine={false} minTickGap={16} />
+                      <YAxis tickLine={false} axisLine={false} domain={["auto", "auto"]} />
+                      <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatShortDate(String(value))} />} />
+                      <Line dataKey="estimatedMax" type="monotone" stroke="var(--color-estimatedMax)" strokeWidth={2} dot />
+                      <Line dataKey="heaviest" type="monotone" stroke="var(--color-heaviest)" strokeWidth={2} dot />
+                    </LineChart>
+                  </ChartContainer>
+                </>
+              )}
+            </ChartCard>
+          </>
+        )}
+      </main>
+
+      <BottomNav />
+    </div>
+  );
+};
+
+export default Progress;
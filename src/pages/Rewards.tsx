@@ -1,99 +1,119 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { motion } from "framer-motion";
-import { Gift, Star, Zap, Loader2 } from "lucide-react";
+import { Gift, Star, Zap, Loader2, Ticket, ChevronRight } from "lucide-react";
 import { BottomNav } from "@/components/member/BottomNav";
+import { VoucherDialog, Voucher } from "@/components/member/VoucherDialog";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { PointsRules, defaultPointsRules, describeEarningRules, fetchPointsRules } from "@/lib/pointsRules";
+import { toast } from "sonner";
 
 interface Reward {
   id: string;
   name: string;
   description: string;
-  pointsCost: number;
+  points_cost: number;
   category: string;
   icon: string;
+  image_url: string | null;
+  stock: number | null;
 }
 
-const mockRewards: Reward[] = [
-  {
-    id: "1",
-    name: "Free Protein Shake",
-    description: "Redeem for any protein shake at the juice bar",
-    pointsCost: 500,
-    category: "Food & Drinks",
-    icon: "🥤",
-  },
-  {
-    id: "2",
-    name: "Guest Pass",
-    description: "Bring a friend for a free workout session",
-    pointsCost: 1000,
-    category: "Access",
-    icon: "🎟️",
-  },
-  {
-    id: "3",
-    name: "Personal Training Session",
-    description: "30-minute session with a certified trainer",
-    pointsCost: 2000,
-    category: "Training",
-    icon: "💪",
-  },
-  {
-    id: "4",
-    name: "Gym Merchandise",
-    description: "Choose from t-shirts, bottles, or towels",
-    pointsCost: 2500,
-    category: "Merchandise",
-    icon: "👕",
-  },
-  {
-    id: "5",
-    name: "One Month Free",
-    description: "Get your next month membership free",
-    pointsCost: 5000,
-    category: "Membership",
-    icon: "⭐",
-  },
-  {
-    id: "6",
-    name: "Premium Locker",
-    description: "Upgrade to a premium locker for 3 months",
-    pointsCost: 3000,
-    category: "Perks",
-    icon: "🔐",
-  },
-];
+interface Redemption extends Voucher {
+  id: string;
+  status: string;
+  created_at: string;
+}
+
+const statusLabels: Record<string, string> = {
+  pending: "Ready to collect",
+  fulfilled: "Collected",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
 
 const Rewards = () => {
   const { user } = useAuth();
   const [userPoints, setUserPoints] = useState<number>(0);
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [redeemingId, setRedeemingId] = useState<string | null>(null);
+  const [activeVoucher, setActiveVoucher] = useState<Voucher | null>(null);
+  const [pointsRules, setPointsRules] = useState<PointsRules>(defaultPointsRules);
 
-  useEffect(() => {
-    const fetchUserPoints = async () => {
-      if (!user) {
-        setIsLoading(false);
-        return;
-      }
+  const fetchRewards = useCallback(async () => {
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("total_points, gym_id")
+      .eq("user_id", user.id)
+      .maybeSingle();
 
-      const { data, error } = await supabase
-        .from("profiles")
-        .select("total_points")
-        .eq("user_id", user.id)
-        .maybeSingle();
+    if (!error && data) {
+      setUserPoints(data.total_points || 0);
+    }
 
-      if (!error && data) {
-        setUserPoints(data.total_points || 0);
+    // Only active rewards inside their availability window are visible to members
+    if (data?.gym_id) {
+      const { data: rewardsData, error: rewardsError } = await supabase
+        .from("rewards")
+        .select("id, name, description, points_cost, category, icon, image_url, stock")
+        .eq("gym_id", data.gym_id)
+        .order("points_cost", { ascending: true });
+
+      if (rewardsError) {
+        console.error("Error loading rewards:", rewardsError);
       }
-      setIsLoading(false);
-    };
+      setRewards(rewardsData || []);
+
+      try {
+        setPointsRules(await fetchPointsRules(data.gym_id));
+      } catch (rulesError) {
+        console.error("Error loading points rules:", rulesError);
+      }
+    }
 
-    fetchUserPoints();
+    const { data: redemptionsData } = await supabase
+      .from("reward_redemptions")
+      .select("id, voucher_code, reward_name, points_cost, status, created_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(10);
+
+    setRedemptions(redemptionsData || []);
+    setIsLoading(false);
   }, [user]);
+
+  useEffect(() => {
+    fetchRewards();
+  }, [fetchRewards]);
+
+  const handleRedeem = async (reward: Reward) => {
+    setRedeemingId(reward.id);
+
+    const { data, error } = await supabase.rpc("redeem_reward", { _reward_id: reward.id });
+
+    setRedeemingId(null);
+
+    if (error) {
+      toast.error(error.message || "Failed to redeem reward");
+      return;
+    }
+
+    const voucher = data as unknown as Voucher & { total_points: number };
+    setUserPoints(voucher.total_points);
+    setActiveVoucher(voucher);
+    fetchRewards();
+  };
+
   return (
     <div className="min-h-screen pb-24">
       {/* Header */}
@@ -135,15 +155,56 @@ const Rewards = () => {
           )}
         </motion.div>
 
+        {/* My Vouchers */}
+        {redemptions.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="font-semibold text-foreground">My Vouchers</h2>
+            <div className="glass rounded-2xl divide-y divide-border overflow-hidden">
+              {redemptions.map((redemption) => {
+                const isPending = redemption.status === "pending";
+
+                return (
+                  <button
+                    key={redemption.id}
+                    disabled={!isPending}
+                    onClick={() => setActiveVoucher(redemption)}
+                    className="w-full flex items-center justify-between p-4 text-left disabled:cursor-default"
+                  >
+                    <div className="flex items-center gap-3">
+                      <Ticket className={cn("w-5 h-5", isPending ? "text-primary" : "text-muted-foreground")} />
+                      <div>
+                        <p className="font-medium text-foreground">{redemption.reward_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {statusLabels[redemption.status] || redemption.status} ·{" "}
+                          {new Date(redemption.created_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    {isPending && <ChevronRight className="w-5 h-5 text-muted-foreground" />}
+                  </button>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
         {/* Rewards Grid */}
         <section className="space-y-4">
           <h2 className="font-semibold text-foreground">Available Rewards</h2>
           
+          {!isLoading && rewards.length === 0 && (
+            <div className="glass rounded-2xl p-8 text-center">
+              <Gift className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">Your gym hasn't added any rewards yet. Check back soon!</p>
+            </div>
+          )}
+
           <div className="grid gap-4">
-            {mockRewards.map((reward, index) => {
-              const canAfford = userPoints >= reward.pointsCost;
-              const progress = Math.min((userPoints / reward.pointsCost) * 100, 100);
-              const pointsNeeded = reward.pointsCost - userPoints;
+            {rewards.map((reward, index) => {
+              const isOutOfStock = reward.stock === 0;
+              const canAfford = userPoints >= reward.points_cost && !isOutOfStock;
+              const progress = Math.min((userPoints / reward.points_cost) * 100, 100);
+              const pointsNeeded = reward.points_cost - userPoints;
 
               return (
                 <motion.div
@@ -158,10 +219,14 @@ const Rewards = () => {
                 >
                   <div className="flex gap-4">
                     <div className={cn(
-                      "w-14 h-14 rounded-xl flex items-center justify-center text-2xl",
+                      "w-14 h-14 rounded-xl flex items-center justify-center text-2xl overflow-hidden shrink-0",
                       canAfford ? "bg-primary/20" : "bg-secondary"
                     )}>
-                      {reward.icon}
+                      {reward.image_url ? (
+                        <img src={reward.image_url} alt={reward.name} className="w-full h-full object-cover" />
+                      ) : (
+                        reward.icon
+                      )}
                     </div>
                     
                     <div className="flex-1 min-w-0">
@@ -172,7 +237,7 @@ const Rewards = () => {
                         </div>
                         <div className="flex items-center gap-1 shrink-0">
                           <Star className="w-4 h-4 text-primary" />
-                          <span className="font-bold text-foreground">{reward.pointsCost.toLocaleString()}</span>
+                          <span className="font-bold text-foreground">{reward.points_cost.toLocaleString()}</span>
                         </div>
                       </div>
                       
@@ -180,7 +245,16 @@ const Rewards = () => {
                         {reward.description}
                       </p>
 
-                      {!canAfford && (
+                      {reward.stock !== null && (
+                        <p className={cn(
+                          "text-xs mt-2",
+                          isOutOfStock ? "text-destructive" : "text-muted-foreground"
+                        )}>
+                          {isOutOfStock ? "Out of stock" : `${reward.stock} left`}
+                        </p>
+                      )}
+
+                      {!canAfford && !isOutOfStock && (
                         <div className="mt-3 space-y-2">
                           <Progress 
                             value={progress} 
@@ -202,8 +276,14 @@ const Rewards = () => {
                           variant="success"
                           size="sm"
                           className="mt-3"
+                          disabled={redeemingId !== null}
+                          onClick={() => handleRedeem(reward)}
                         >
-                          Redeem Reward
+                          {redeemingId === reward.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            "Redeem Reward"
+                          )}
                         </Button>
                       )}
                     </div>
@@ -223,22 +303,17 @@ const Rewards = () => {
         >
           <h3 className="font-semibold text-foreground mb-3">How to Earn Points</h3>
           <ul className="space-y-2 text-sm text-muted-foreground">
-            <li className="flex items-center gap-2">
-              <span className="text-primary">•</span>
-              <span><strong className="text-foreground">50 points</strong> per gym visit</span>
-            </li>
-            <li className="flex items-center gap-2">
-              <span className="text-primary">•</span>
-              <span><strong className="text-foreground">100 bonus points</strong> for hitting weekly goal</span>
-            </li>
-            <li className="flex items-center gap-2">
-              <span className="text-primary">•</span>
-              <span><strong className="text-foreground">25 extra points</strong> for each week on a streak</span>
-            </li>
+            {describeEarningRules(pointsRules).map((rule) => (
+              <li key={rule.key} className="flex items-center gap-2">
+                <span className="text-primary">•</span>
+                <span><strong className="text-foreground">{rule.points}</strong> {rule.description}</span>
+              </li>
+            ))}
           </ul>
         </motion.section>
       </main>
 
+      <VoucherDialog voucher={activeVoucher} onOpenChange={(open) => !open && setActiveVoucher(null)} />
       <BottomNav />
     </div>
   );
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
 
 const goalOptions = [
   {
@@ -49,15 +50,25 @@ const SetGoal = () => {
       return;
     }
 
+    if (!user) return;
+
     setIsSubmitting(true);
 
-    // Simulate API call to save goal
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    const { error } = await supabase
+      .from("profiles")
+      .update({ weekly_goal: selectedGoal })
+      .eq("user_id", user.id);
+
+    setIsSubmitting(false);
+
+    if (error) {
+      console.error("Error saving goal:", error);
+      toast.error("Failed to save your goal. Please try again.");
+      return;
+    }
 
     toast.success(`Weekly goal set to ${selectedGoal} visits! Let's crush it! 🎯`);
     navigate("/");
-
-    setIsSubmitting(false);
   };
 
   if (authLoading) {
@@ -1,13 +1,8 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Dumbbell,
-  Heart,
-  Footprints,
-  Zap,
-  Bike,
-  MoreHorizontal,
   Sparkles,
   Plus,
   Trash2,
@@ -15,6 +10,8 @@ import {
   Loader2,
   ArrowLeft,
   ChevronDown,
+  ClipboardList,
+  Building2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -24,64 +21,73 @@ import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
 import { BottomNav } from "@/components/member/BottomNav";
 import { supabase } from "@/integrations/supabase/client";
+import { getWorkoutRuleViolation } from "@/lib/activityRules";
+import {
+  Exercise,
+  ExerciseSet,
+  Intensity,
+  WorkoutTemplate,
+  buildSetLog,
+  fromTemplateExercises,
+  getTotalDuration,
+  getWorkoutType,
+  parseWorkoutExercises,
+  serializeWorkoutExercises,
+  toTemplateExercises,
+  withSetLogs,
+  workoutTypes,
+} from "@/lib/workouts";
+import { TemplateEditorDialog } from "@/components/member/TemplateEditorDialog";
+import { SetLogEditor } from "@/components/member/SetLogEditor";
+import { ExerciseNameInput } from "@/components/member/ExerciseNameInput";
+import {
+  formatRecordValue,
+  getExerciseKey,
+  recomputePersonalRecords,
+  recordPersonalRecords,
+  recordTypeLabels,
+} from "@/lib/personalRecords";
+import { BodyProfile, estimateCalories, fetchBodyProfile, intensityLabels } from "@/lib/calories";
+import { PointsRules, defaultPointsRules, estimateWorkoutPoints, fetchPointsRules } from "@/lib/pointsRules";
+import {
+  CatalogExercise,
+  CatalogMuscleGroup,
+  applyCatalogExercise,
+  fetchExerciseCatalog,
+  linkExercisesToCatalog,
+  muscleGroupLabels,
+} from "@/lib/exerciseCatalog";
+import {
+  TrainingProfile,
+  fetchExerciseSuggestions,
+  fetchSuggestionHistory,
+  fetchTrainingProfile,
+} from "@/lib/suggestions";
+import type { Json } from "@/integrations/supabase/types";
 
-// Calories burned per minute based on national averages (moderate intensity)
-// Sources: Harvard Health, ACE Fitness, Mayo Clinic
-const workoutTypes = [
-  { value: "weights", label: "Weights", icon: Dumbbell, color: "text-blue-400", caloriesPerMin: 5 },
-  { value: "cardio", label: "Cardio", icon: Heart, color: "text-red-400", caloriesPerMin: 10 },
-  { value: "aerobics", label: "Aerobics", icon: Footprints, color: "text-purple-400", caloriesPerMin: 8 },
-  { value: "hiit", label: "HIIT", icon: Zap, color: "text-orange-400", caloriesPerMin: 14 },
-  { value: "spinning", label: "Spinning", icon: Bike, color: "text-green-400", caloriesPerMin: 12 },
-  { value: "other", label: "Other", icon: MoreHorizontal, color: "text-muted-foreground", caloriesPerMin: 6 },
-];
-
-// Points per calorie burned (1 point per 10 calories)
-const POINTS_PER_CALORIE = 0.1;
-
-interface Exercise {
-  id: string;
-  name: string;
-  sets?: number;
-  reps?: number;
-  duration?: number;
-  isAISuggested?: boolean;
-}
-
-// Fetch AI exercise suggestions from edge function
-async function fetchAISuggestions(workoutType: string): Promise<Exercise[]> {
-  const { data, error } = await supabase.functions.invoke("suggest-exercises", {
-    body: { workout_type: workoutType, experience_level: "beginner" },
-  });
-
-  if (error) {
-    console.error("Error fetching AI suggestions:", error);
-    throw new Error(error.message || "Failed to fetch suggestions");
-  }
-
-  if (data.error) {
-    throw new Error(data.error);
-  }
-
-  // Transform API response to Exercise format
-  return (data.exercises || []).map((ex: any, idx: number) => ({
-    id: `ai-${idx}`,
-    name: ex.name,
-    sets: ex.sets,
-    reps: ex.reps,
-    duration: ex.duration_minutes,
-    isAISuggested: true,
-  }));
-}
+const targetDurationOptions = [20, 30, 45, 60];
 
 const Workout = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user, isLoading: authLoading } = useAuth();
   const [selectedType, setSelectedType] = useState<string | null>(null);
   const [exercises, setExercises] = useState<Exercise[]>([]);
   const [isLoadingAI, setIsLoadingAI] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showTypeSelector, setShowTypeSelector] = useState(true);
+  const [maxWorkoutMinutes, setMaxWorkoutMinutes] = useState<number | null>(null);
+  const [gymEquipment, setGymEquipment] = useState<string[] | null>(null);
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  // Exercise keys as first loaded, so records held by exercises removed in the edit are rebuilt too
+  const [editingWorkout, setEditingWorkout] = useState<{ id: string; points_earned: number; exerciseKeys: string[] } | null>(null);
+  const [bodyProfile, setBodyProfile] = useState<BodyProfile | null>(null);
+  const [pointsRules, setPointsRules] = useState<PointsRules>(defaultPointsRules);
+  const [catalog, setCatalog] = useState<CatalogExercise[]>([]);
+  const [trainingProfile, setTrainingProfile] = useState<TrainingProfile | null>(null);
+  const [targetMinutes, setTargetMinutes] = useState<number | null>(null);
+  const [focusMuscleGroups, setFocusMuscleGroups] = useState<CatalogMuscleGroup[]>([]);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -89,16 +95,163 @@ const Workout = () => {
     }
   }, [user, authLoading, navigate]);
 
+  // Gym limit on session length and points rules (both enforced again when the workout is saved)
+  // and the equipment available for suggestions
+  useEffect(() => {
+    const fetchWorkoutRules = async () => {
+      if (!user) return;
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("gym_id")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (!profile?.gym_id) return;
+
+      const { data: gym } = await supabase
+        .from("gyms")
+        .select("max_workout_minutes, equipment")
+        .eq("id", profile.gym_id)
+        .maybeSingle();
+
+      setMaxWorkoutMinutes(gym?.max_workout_minutes ?? null);
+      setGymEquipment(gym?.equipment ?? null);
+
+      try {
+        setPointsRules(await fetchPointsRules(profile.gym_id));
+      } catch (error) {
+        console.error("Error loading points rules:", error);
+      }
+    };
+
+    fetchWorkoutRules();
+  }, [user]);
+
+  // Optional body measurements personalise the calorie estimate
+  useEffect(() => {
+    if (!user) return;
+
+    fetchBodyProfile(user.id)
+      .then(setBodyProfile)
+      .catch((error) => console.error("Error loading body profile:", error));
+  }, [user]);
+
+  // Experience, goals and injuries shape the AI suggestions
+  useEffect(() => {
+    if (!user) return;
+
+    fetchTrainingProfile(user.id)
+      .then(setTrainingProfile)
+      .catch((error) => console.error("Error loading training profile:", error));
+  }, [user]);
+
+  // Exercise library for name suggestions; free-text names still work without it
+  useEffect(() => {
+    fetchExerciseCatalog()
+      .then(setCatalog)
+      .catch((error) => console.error("Error loading exercise catalog:", error));
+  }, []);
+
+  // Personal templates plus the ones published by the member's gym
+  const fetchTemplates = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("workout_templates")
+      .select("id, user_id, gym_id, name, workout_type, exercises, updated_at")
+      .order("name");
+
+    if (error) {
+      console.error("Error loading templates:", error);
+      return;
+    }
+
+    setTemplates((data || []) as unknown as WorkoutTemplate[]);
+  }, [user]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleStartTemplate = (template: WorkoutTemplate) => {
+    setSelectedType(template.workout_type);
+    setShowTypeSelector(false);
+    setExercises(withSetLogs(fromTemplateExercises(template.exercises)));
+  };
+
+  // History links here with ?edit=<id> to change a logged workout
+  const editParam = searchParams.get("edit");
+  useEffect(() => {
+    const fetchWorkout = async () => {
+      if (!user || !editParam) return;
+
+      const { data: workout, error } = await supabase
+        .from("workouts")
+        .select("id, workout_type, exercises, points_earned")
+        .eq("id", editParam)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error || !workout) {
+        console.error("Error loading workout:", error);
+        toast.error("Workout not found");
+        navigate("/history");
+        return;
+      }
+
+      setSelectedType(workout.workout_type);
+      setShowTypeSelector(false);
+      const loggedExercises = parseWorkoutExercises(workout.exercises);
+      setExercises(loggedExercises);
+      setEditingWorkout({
+        id: workout.id,
+        points_earned: workout.points_earned,
+        exerciseKeys: loggedExercises.map((exercise) => getExerciseKey(exercise.name)),
+      });
+    };
+
+    fetchWorkout();
+  }, [user, editParam, navigate]);
+
+  // Profile links here with ?template=<id> to start a saved routine
+  const templateParam = searchParams.get("template");
+  useEffect(() => {
+    if (!templateParam) return;
+
+    const template = templates.find((t) => t.id === templateParam);
+    if (template) {
+      handleStartTemplate(template);
+      setSearchParams({}, { replace: true });
+    }
+  }, [templateParam, templates, setSearchParams]);
+
   const handleSelectType = async (type: string) => {
     setSelectedType(type);
     setShowTypeSelector(false);
+    // Keep the logged exercises when correcting the type of an existing workout
+    if (editingWorkout) return;
+
     setIsLoadingAI(true);
     setExercises([]);
 
     try {
-      const suggestions = await fetchAISuggestions(type);
-      setExercises(suggestions);
-      toast.success("AI generated exercise suggestions!");
+      // Recent sessions let the suggestions progress instead of repeating the same list
+      const history = user ? await fetchSuggestionHistory(user.id).catch(() => []) : [];
+      const { exercises: suggestions, source } = await fetchExerciseSuggestions({
+        workoutType: type,
+        equipment: gymEquipment,
+        profile: trainingProfile,
+        history,
+        targetMinutes,
+        focusMuscleGroups,
+      });
+      setExercises(withSetLogs(suggestions));
+      if (source === "ai") {
+        toast.success("AI generated exercise suggestions!");
+      } else {
+        toast.info("AI suggestions are unavailable, so here is a standard workout");
+      }
     } catch (error: any) {
       console.error("Failed to get AI suggestions:", error);
       toast.error(error.message || "Failed to get AI suggestions");
@@ -107,12 +260,19 @@ const Workout = () => {
     }
   };
 
+  const toggleFocusMuscleGroup = (group: CatalogMuscleGroup) => {
+    setFocusMuscleGroups(
+      focusMuscleGroups.includes(group)
+        ? focusMuscleGroups.filter((g) => g !== group)
+        : [...focusMuscleGroups, group]
+    );
+  };
+
   const handleAddExercise = () => {
     const newExercise: Exercise = {
       id: `manual-${Date.now()}`,
       name: "",
-      sets: 3,
-      reps: 10,
+      setLog: buildSetLog(),
       isAISuggested: false,
     };
     setExercises([...exercises, newExercise]);
@@ -122,7 +282,7 @@ const Workout = () => {
     setExercises(exercises.filter((ex) => ex.id !== id));
   };
 
-  const handleUpdateExercise = (id: string, field: keyof Exercise, value: string | number) => {
+  const handleUpdateExercise = (id: string, field: keyof Exercise, value: string | number | Intensity) => {
     setExercises(
       exercises.map((ex) =>
         ex.id === id ? { ...ex, [field]: value } : ex
@@ -130,74 +290,148 @@ const Workout = () => {
     );
   };
 
+  // Typing over a library name unlinks it; it is matched again on save
+  const handleRenameExercise = (id: string, name: string) => {
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === id ? { ...ex, name, exerciseId: undefined } : ex
+      )
+    );
+  };
+
+  const handleSelectCatalogExercise = (id: string, entry: CatalogExercise) => {
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === id ? applyCatalogExercise(ex, entry) : ex
+      )
+    );
+  };
+
+  const handleUpdateSetLog = (id: string, setLog: ExerciseSet[]) => {
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === id ? { ...ex, setLog } : ex
+      )
+    );
+  };
+
   const handleSaveWorkout = async () => {
-    const validExercises = exercises.filter((ex) => ex.name.trim());
+    const validExercises = linkExercisesToCatalog(exercises.filter((ex) => ex.name.trim()), catalog);
     if (validExercises.length === 0) {
       toast.error("Please add at least one exercise");
       return;
     }
 
+    if (getTotalDuration(validExercises) === 0) {
+      toast.error("Tick off the sets you completed before saving");
+      return;
+    }
+
     if (!user || !selectedType) return;
 
     setIsSaving(true);
 
     try {
-      // Get the workout type data for calorie calculation
-      const typeData = workoutTypes.find((t) => t.value === selectedType);
-      const caloriesPerMin = typeData?.caloriesPerMin || 6;
-
-      // Calculate total duration from exercises
-      let totalDuration = 0;
-      validExercises.forEach((ex) => {
-        if (ex.duration) {
-          totalDuration += ex.duration;
-        } else if (ex.sets && ex.reps) {
-          // Estimate ~1 minute per set for strength exercises
-          totalDuration += ex.sets;
-        }
-      });
+      const totalDuration = getTotalDuration(validExercises);
 
-      // Calculate calories and points
-      const caloriesBurned = Math.round(totalDuration * caloriesPerMin);
-      const pointsEarned = Math.round(caloriesBurned * POINTS_PER_CALORIE);
+      // Points are priced server-side from the calories using the gym's rules; the server also
+      // bounds the calories by the session length
+      const caloriesBurned = estimateCalories(validExercises, selectedType, bodyProfile, catalog);
 
-      // Get user's gym_id and current points from profile
+      // Get user's gym_id from profile
       const { data: profile } = await supabase
         .from("profiles")
-        .select("gym_id, total_points")
+        .select("gym_id")
         .eq("user_id", user.id)
         .maybeSingle();
 
-      // Save workout to database
-      const { error: workoutError } = await supabase.from("workouts").insert([{
-        user_id: user.id,
-        gym_id: profile?.gym_id || null,
+      const workoutFields = {
         workout_type: selectedType,
-        exercises: validExercises as any,
+        exercises: serializeWorkoutExercises(validExercises) as unknown as Json,
         total_duration_minutes: totalDuration,
         calories_burned: caloriesBurned,
-        points_earned: pointsEarned,
-      }]);
+      };
+
+      // Edits adjust the points ledger by the difference server-side
+      if (editingWorkout) {
+        const { data: updated, error: updateError } = await supabase
+          .from("workouts")
+          .update(workoutFields)
+          .eq("id", editingWorkout.id)
+          .select("points_earned")
+          .single();
+
+        if (updateError) throw updateError;
+
+        const pointsDelta = updated.points_earned - editingWorkout.points_earned;
+        toast.success("Workout updated", {
+          description:
+            pointsDelta === 0
+              ? "Your points are unchanged"
+              : `${pointsDelta > 0 ? "+" : ""}${pointsDelta} points`,
+        });
+
+        try {
+          await recomputePersonalRecords(user.id, [
+            ...editingWorkout.exerciseKeys,
+            ...validExercises.map((exercise) => getExerciseKey(exercise.name)),
+          ]);
+        } catch (recordError) {
+          console.error("Failed to update personal records:", recordError);
+        }
+
+        navigate("/history");
+        return;
+      }
+
+      // Save workout to database (points are credited to the ledger server-side)
+      const { data: workout, error: workoutError } = await supabase.from("workouts").insert([{
+        user_id: user.id,
+        gym_id: profile?.gym_id || null,
+        ...workoutFields,
+      }]).select("id, calories_burned, points_earned").single();
 
       if (workoutError) throw workoutError;
 
-      // Update user's total points
-      const currentPoints = profile?.total_points || 0;
-      await supabase
-        .from("profiles")
-        .update({ total_points: currentPoints + pointsEarned })
-        .eq("user_id", user.id);
+      toast.success(`Workout logged! 🔥 ${workout.calories_burned} calories burned, +${workout.points_earned} points earned!`);
+
+      // Records are a bonus; a failure here must not undo the logged workout
+      try {
+        const records = await recordPersonalRecords(user.id, workout.id, validExercises);
+        const beaten = records.filter((record) => record.previous !== null);
+        if (beaten.length > 0) {
+          toast.success(`New personal record${beaten.length > 1 ? "s" : ""}! 🏆`, {
+            description: beaten
+              .map((record) => `${record.exercise_name}: ${recordTypeLabels[record.record_type]} ${formatRecordValue(record)}`)
+              .join(" · "),
+          });
+        }
+      } catch (recordError) {
+        console.error("Failed to update personal records:", recordError);
+      }
 
-      toast.success(`Workout logged! 🔥 ${caloriesBurned} calories burned, +${pointsEarned} points earned!`);
       navigate("/");
     } catch (error: any) {
       console.error("Failed to save workout:", error);
-      toast.error(error.message || "Failed to save workout");
+      const violation = getWorkoutRuleViolation(error);
+      if (violation === "workout_too_long") {
+        toast.error("Workout too long", { description: error.message });
+      } else if (violation === "workout_overlap") {
+        toast.error("Workout already logged", { description: error.message });
+      } else {
+        toast.error(error.message || "Failed to save workout");
+      }
     } finally {
       setIsSaving(false);
     }
   };
 
+  const plannedExercises = exercises.filter((ex) => ex.name.trim());
+  const plannedDuration = getTotalDuration(plannedExercises);
+  const estimatedCalories = selectedType ? estimateCalories(plannedExercises, selectedType, bodyProfile, catalog) : 0;
+  const estimatedPoints = selectedType ? estimateWorkoutPoints(pointsRules, selectedType, estimatedCalories) : 0;
+  const exceedsMaxDuration = maxWorkoutMinutes !== null && plannedDuration > maxWorkoutMinutes;
+
   if (authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -209,6 +443,8 @@ const Workout = () => {
   if (!user) return null;
 
   const selectedTypeData = workoutTypes.find((t) => t.value === selectedType);
+  const personalTemplates = templates.filter((t) => t.gym_id === null);
+  const gymTemplates = templates.filter((t) => t.gym_id !== null);
 
   return (
     <div className="min-h-screen pb-24">
@@ -220,14 +456,16 @@ const Workout = () => {
           className="flex items-center gap-3"
         >
           <button
-            onClick={() => navigate("/")}
+            onClick={() => navigate(editingWorkout ? "/history" : "/")}
             className="w-10 h-10 rounded-xl bg-muted flex items-center justify-center"
           >
             <ArrowLeft className="w-5 h-5 text-foreground" />
           </button>
           <div>
-            <h1 className="text-xl font-bold text-foreground">Track Workout</h1>
-            <p className="text-sm text-muted-foreground">Log your exercises</p>
+            <h1 className="text-xl font-bold text-foreground">{editingWorkout ? "Edit Workout" : "Track Workout"}</h1>
+            <p className="text-sm text-muted-foreground">
+              {editingWorkout ? "Points are adjusted when you save" : "Log your exercises"}
+            </p>
           </div>
         </motion.div>
       </header>
@@ -295,6 +533,99 @@ const Workout = () => {
           </AnimatePresence>
         </motion.section>
 
+        {/* Suggestion preferences, sent along when a type is picked */}
+        {showTypeSelector && !editingWorkout && (
+          <motion.section
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="glass rounded-2xl p-4 space-y-3"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-foreground">Suggestion preferences</h2>
+              {!trainingProfile && (
+                <button onClick={() => navigate("/profile")} className="text-xs text-primary">
+                  Set training profile
+                </button>
+              )}
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Length</Label>
+              <div className="grid grid-cols-5 gap-1 rounded-lg bg-muted/50 p-1">
+                {[null, ...targetDurationOptions].map((minutes) => (
+                  <button
+                    key={minutes ?? "any"}
+                    onClick={() => setTargetMinutes(minutes)}
+                    className={cn(
+                      "h-7 rounded-md text-xs font-medium transition-colors",
+                      targetMinutes === minutes
+                        ? "bg-primary text-primary-foreground"
+                        : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {minutes === null ? "Any" : `${minutes}m`}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Focus</Label>
+              <div className="flex flex-wrap gap-1.5">
+                {(Object.keys(muscleGroupLabels) as CatalogMuscleGroup[]).map((group) => (
+                  <button
+                    key={group}
+                    aria-pressed={focusMuscleGroups.includes(group)}
+                    onClick={() => toggleFocusMuscleGroup(group)}
+                    className={cn(
+                      "h-7 px-2.5 rounded-md text-xs font-medium transition-colors",
+                      focusMuscleGroups.includes(group)
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-muted/50 text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {muscleGroupLabels[group]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </motion.section>
+        )}
+
+        {/* Templates */}
+        {showTypeSelector && !editingWorkout && templates.length > 0 && (
+          <motion.section
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-3"
+          >
+            <h2 className="font-semibold text-foreground">Start from a template</h2>
+            {[...personalTemplates, ...gymTemplates].map((template) => {
+              const type = getWorkoutType(template.workout_type);
+              return (
+                <button
+                  key={template.id}
+                  onClick={() => handleStartTemplate(template)}
+                  className="w-full glass rounded-xl p-4 flex items-center gap-3 text-left hover:bg-card/90 transition-all"
+                >
+                  <div className={cn("w-10 h-10 rounded-xl bg-muted flex items-center justify-center", type.color)}>
+                    <type.icon className="w-5 h-5" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground truncate">{template.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {template.exercises.map((ex) => ex.name).join(", ")}
+                    </p>
+                  </div>
+                  {template.gym_id ? (
+                    <Building2 className="w-4 h-4 text-muted-foreground shrink-0" />
+                  ) : (
+                    <ClipboardList className="w-4 h-4 text-muted-foreground shrink-0" />
+                  )}
+                </button>
+              );
+            })}
+          </motion.section>
+        )}
+
         {/* AI Loading State */}
         {isLoadingAI && (
           <motion.div
@@ -351,16 +682,33 @@ const Workout = () => {
                           {exercise.isAISuggested && (
                             <Sparkles className="w-4 h-4 text-primary" />
                           )}
-                          <Input
+                          <ExerciseNameInput
                             value={exercise.name}
-                            onChange={(e) =>
-                              handleUpdateExercise(exercise.id, "name", e.target.value)
-                            }
-                            placeholder="Exercise name"
+                            linked={!!exercise.exerciseId}
+                            catalog={catalog}
+                            onChange={(name) => handleRenameExercise(exercise.id, name)}
+                            onSelect={(entry) => handleSelectCatalogExercise(exercise.id, entry)}
                             className="h-10 bg-muted/50 border-border rounded-lg font-medium"
                           />
                         </div>
 
+                        <div className="grid grid-cols-3 gap-1 rounded-lg bg-muted/50 p-1">
+                          {(Object.keys(intensityLabels) as Intensity[]).map((intensity) => (
+                            <button
+                              key={intensity}
+                              onClick={() => handleUpdateExercise(exercise.id, "intensity", intensity)}
+                              className={cn(
+                                "h-7 rounded-md text-xs font-medium transition-colors",
+                                (exercise.intensity ?? "moderate") === intensity
+                                  ? "bg-primary text-primary-foreground"
+                                  : "text-muted-foreground hover:text-foreground"
+                              )}
+                            >
+                              {intensityLabels[intensity]}
+                            </button>
+                          ))}
+                        </div>
+
                         <div className="flex gap-3">
                           {exercise.duration !== undefined ? (
                             <div className="flex-1">
@@ -379,38 +727,12 @@ const Workout = () => {
                               />
                             </div>
                           ) : (
-                            <>
-                              <div className="flex-1">
-                                <Label className="text-xs text-muted-foreground">Sets</Label>
-                                <Input
-                                  type="number"
-                                  value={exercise.sets || ""}
-                                  onChange={(e) =>
-                                    handleUpdateExercise(
-                                      exercise.id,
-                                      "sets",
-                                      parseInt(e.target.value) || 0
-                                    )
-                                  }
-                                  className="h-9 bg-muted/50 border-border rounded-lg"
-                                />
-                              </div>
-                              <div className="flex-1">
-                                <Label className="text-xs text-muted-foreground">Reps</Label>
-                                <Input
-                                  type="number"
-                                  value={exercise.reps || ""}
-                                  onChange={(e) =>
-                                    handleUpdateExercise(
-                                      exercise.id,
-                                      "reps",
-                                      parseInt(e.target.value) || 0
-                                    )
-                                  }
-                                  className="h-9 bg-muted/50 border-border rounded-lg"
-                                />
-                              </div>
-                            </>
+                            <div className="flex-1">
+                              <SetLogEditor
+                                sets={exercise.setLog ?? []}
+                                onChange={(setLog) => handleUpdateSetLog(exercise.id, setLog)}
+                              />
+                            </div>
                           )}
                         </div>
                       </div>
@@ -442,11 +764,24 @@ const Workout = () => {
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            className="pt-4"
+            className="pt-4 space-y-3"
           >
+            {plannedDuration > 0 && (
+              <p className="text-sm text-muted-foreground text-center">
+                ≈ {estimatedCalories} calories · +{estimatedPoints} points
+                {!bodyProfile && (
+                  <span className="block text-xs">Add your body weight in Profile for a personalised estimate</span>
+                )}
+              </p>
+            )}
+            {exceedsMaxDuration && (
+              <p className="text-sm text-destructive text-center">
+                This workout is {plannedDuration} minutes. Your gym allows up to {maxWorkoutMinutes} minutes per session.
+              </p>
+            )}
             <Button
               onClick={handleSaveWorkout}
-              disabled={isSaving}
+              disabled={isSaving || exceedsMaxDuration}
               className="w-full h-14 rounded-xl text-lg font-semibold glow-button"
             >
               {isSaving ? (
@@ -454,14 +789,30 @@ const Workout = () => {
               ) : (
                 <>
                   <Save className="w-5 h-5 mr-2" />
-                  Save Workout
+                  {editingWorkout ? "Update Workout" : "Save Workout"}
                 </>
               )}
             </Button>
+            <Button
+              variant="secondary"
+              onClick={() => setIsTemplateDialogOpen(true)}
+              disabled={!exercises.some((ex) => ex.name.trim())}
+              className="w-full h-12 rounded-xl gap-2"
+            >
+              <ClipboardList className="w-5 h-5" />
+              Save as Template
+            </Button>
           </motion.div>
         )}
       </main>
 
+      <TemplateEditorDialog
+        open={isTemplateDialogOpen}
+        onOpenChange={setIsTemplateDialogOpen}
+        draft={selectedType ? { workout_type: selectedType, exercises: toTemplateExercises(exercises) } : null}
+        onSaved={fetchTemplates}
+      />
+
       <BottomNav />
     </div>
   );
@@ -0,0 +1,140 @@
+import { SUGGESTION_LIMITS, type SuggestedExercise } from "./schema.ts";
+
+// Mirrors the columns of public.exercises the function needs
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  aliases: string[];
+  muscle_groups: string[];
+  equipment: string[];
+  tracking: "sets" | "duration";
+  workout_types: string[];
+  default_sets: number | null;
+  default_reps: number | null;
+  default_duration_minutes: number | null;
+}
+
+export interface CatalogMatch {
+  entry: CatalogEntry | null;
+  suggestion: SuggestedExercise;
+}
+
+// Same matching as src/lib/exerciseCatalog.ts: case, punctuation and plurals are ignored,
+// then equipment qualifiers like "(Barbell)"
+const qualifierWords = new Set(["barbell", "dumbbell", "dumbbells", "machine", "cable", "kettlebell", "the", "a"]);
+
+export function normalizeExerciseName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+    .join(" ");
+}
+
+function stripQualifiers(normalized: string) {
+  return normalized.split(" ").filter((word) => !qualifierWords.has(word)).join(" ");
+}
+
+export function findCatalogEntry(catalog: CatalogEntry[], name: string) {
+  const normalized = normalizeExerciseName(name);
+  if (!normalized) return null;
+
+  const namesOf = (entry: CatalogEntry) => [entry.name, ...entry.aliases].map(normalizeExerciseName);
+  const exact = catalog.find((entry) => namesOf(entry).includes(normalized));
+  if (exact) return exact;
+
+  const stripped = stripQualifiers(normalized);
+  return catalog.find((entry) => namesOf(entry).some((candidate) => stripQualifiers(candidate) === stripped)) ?? null;
+}
+
+// Suggestions that match the library take its canonical name and id
+export function mapToCatalog(exercises: SuggestedExercise[], catalog: CatalogEntry[]): CatalogMatch[] {
+  return exercises.map((exercise) => {
+    const entry = findCatalogEntry(catalog, exercise.name);
+    return {
+      entry,
+      suggestion: entry ? { ...exercise, name: entry.name, exercise_id: entry.id } : exercise,
+    };
+  });
+}
+
+// Without an inventory everything is doable. With one, exercises outside the library are not:
+// their equipment can't be checked.
+export function isDoable(entry: CatalogEntry | null, available: string[] | null) {
+  if (!available) return true;
+  if (!entry) return false;
+  return entry.equipment.every((item) => available.includes(item));
+}
+
+// Standard exercises per workout type, used when the model's reply is unusable
+const fallbackExercises: Record<string, SuggestedExercise[]> = {
+  weights: [
+    { name: "Bench Press", sets: 3, reps: 10 },
+    { name: "Squats", sets: 3, reps: 12 },
+    { name: "Deadlift", sets: 3, reps: 8 },
+    { name: "Shoulder Press", sets: 3, reps: 10 },
+  ],
+  cardio: [
+    { name: "Treadmill Jog", duration_minutes: 15 },
+    { name: "Stationary Bike", duration_minutes: 10 },
+    { name: "Rowing Machine", duration_minutes: 10 },
+  ],
+  aerobics: [
+    { name: "Step Aerobics", duration_minutes: 20 },
+    { name: "Dance Cardio", duration_minutes: 15 },
+  ],
+  hiit: [
+    { name: "Burpees", sets: 4, reps: 10 },
+    { name: "Mountain Climbers", sets: 4, reps: 20 },
+    { name: "Box Jumps", sets: 4, reps: 12 },
+  ],
+  spinning: [
+    { name: "Warm-up Ride", duration_minutes: 5 },
+    { name: "Hill Climb", duration_minutes: 10 },
+    { name: "Sprint Intervals", duration_minutes: 10 },
+  ],
+  other: [
+    { name: "Stretching", duration_minutes: 10 },
+    { name: "Yoga Flow", duration_minutes: 15 },
+  ],
+};
+
+export function getFallbackExercises(workout_type: string): SuggestedExercise[] {
+  return fallbackExercises[workout_type] || fallbackExercises.other;
+}
+
+const catalogSuggestion = (entry: CatalogEntry): CatalogMatch => ({
+  entry,
+  suggestion:
+    entry.tracking === "sets"
+      ? { name: entry.name, sets: entry.default_sets ?? 3, reps: entry.default_reps ?? 10, exercise_id: entry.id }
+      : { name: entry.name, duration_minutes: entry.default_duration_minutes ?? 10, exercise_id: entry.id },
+});
+
+// The static list and library exercises for the type, up to the response's maximum. When the gym
+// can do fewer than the minimum, mobility and then any other doable exercise fill the gap.
+export function getDoableFallbacks(workout_type: string, catalog: CatalogEntry[], available: string[] | null) {
+  const { minExercises, maxExercises } = SUGGESTION_LIMITS;
+  const seen = new Set<string>();
+  const doable = (matches: CatalogMatch[]) =>
+    matches.filter((match) => {
+      const key = normalizeExerciseName(match.suggestion.name);
+      if (seen.has(key) || !isDoable(match.entry, available)) return false;
+      seen.add(key);
+      return true;
+    });
+  const ofType = (type: string) => catalog.filter((entry) => entry.workout_types.includes(type)).map(catalogSuggestion);
+
+  const fallbacks = doable([...mapToCatalog(getFallbackExercises(workout_type), catalog), ...ofType(workout_type)]);
+  if (fallbacks.length >= minExercises) return fallbacks.slice(0, maxExercises);
+
+  const extra = doable([
+    ...mapToCatalog(fallbackExercises.other, catalog),
+    ...ofType("other"),
+    ...catalog.map(catalogSuggestion),
+    ...mapToCatalog(Object.values(fallbackExercises).flat(), catalog),
+  ]);
+  return [...fallbacks, ...extra].slice(0, minExercises);
+}
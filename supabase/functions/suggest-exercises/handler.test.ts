@@ -0,0 +1,215 @@
+import { deepStrictEqual as assertEquals, ok as assert } from "node:assert/strict";
+import type { CatalogEntry } from "./catalog.ts";
+import { createHandler } from "./handler.ts";
+import { AIProvider, ProviderError, createStubProvider } from "./providers.ts";
+import { SuggestionsResponse, extractJson, validateSuggestions } from "./schema.ts";
+
+const catalogEntry = (entry: Partial<CatalogEntry> & Pick<CatalogEntry, "id" | "name">): CatalogEntry => ({
+  aliases: [],
+  muscle_groups: [],
+  equipment: [],
+  tracking: "sets",
+  workout_types: [],
+  default_sets: 3,
+  default_reps: 10,
+  default_duration_minutes: null,
+  ...entry,
+});
+
+const catalog: CatalogEntry[] = [
+  catalogEntry({ id: "bench", name: "Bench Press", aliases: ["flat bench"], equipment: ["barbell", "bench"], workout_types: ["weights"] }),
+  catalogEntry({ id: "squat", name: "Squats", equipment: ["barbell"], workout_types: ["weights"] }),
+  catalogEntry({ id: "goblet", name: "Goblet Squat", equipment: ["kettlebell"], workout_types: ["weights"] }),
+  catalogEntry({ id: "pushup", name: "Push-ups", workout_types: ["weights"] }),
+  catalogEntry({
+    id: "rower",
+    name: "Rowing Machine",
+    equipment: ["rowing_machine"],
+    tracking: "duration",
+    workout_types: ["cardio"],
+    default_sets: null,
+    default_reps: null,
+    default_duration_minutes: 10,
+  }),
+];
+
+// Runs the handler with the model answering `reply` through the stub provider
+async function suggest(body: Record<string, unknown>, reply: string | AIProvider) {
+  const provider = typeof reply === "string" ? createStubProvider(reply) : reply;
+  const handler = createHandler({ loadCatalog: () => Promise.resolve(catalog), createProvider: () => provider });
+
+  const response = await handler(
+    new Request("http://localhost/suggest-exercises", { method: "POST", body: JSON.stringify(body) })
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+const reply = (exercises: unknown[]) => JSON.stringify({ exercises });
+
+Deno.test("extractJson reads fenced and prose-wrapped replies", () => {
+  const fenced = extractJson('```json\n{"exercises": []}\n```');
+  assert(fenced.ok);
+  assertEquals(fenced.value, { exercises: [] });
+
+  const wrapped = extractJson('Sure! Here you go: {"exercises": [{"name": "Plank", "duration_minutes": 2}]} Enjoy.');
+  assert(wrapped.ok);
+
+  assertEquals(extractJson("no json here"), { ok: false, error: "Model reply was not valid JSON" });
+  assertEquals(extractJson(undefined), { ok: false, error: "Model reply was empty" });
+});
+
+Deno.test("validateSuggestions repairs numbers and drops invalid items", () => {
+  const { exercises, warnings } = validateSuggestions(
+    {
+      exercises: [
+        { name: "  Bench   Press ", sets: "3", reps: 9.6, weight_kg: "42.25" },
+        { name: "Squats", sets: 40, reps: 10 },
+        { name: "Lunges", sets: 3 },
+        { name: "X", sets: 3, reps: 10 },
+        { name: "Plank", sets: 0, reps: 10 },
+        { name: "Deadlift", sets: 3, reps: 5, weight_kg: -20 },
+        "Burpees",
+      ],
+    },
+    "weights"
+  );
+
+  assertEquals(exercises, [
+    { name: "Bench Press", sets: 3, reps: 10, weight_kg: 42.3 },
+    { name: "Squats", sets: 10, reps: 10 },
+    { name: "Deadlift", sets: 3, reps: 5 },
+  ]);
+  assertEquals(warnings.filter((warning) => warning.includes("dropped")).length, 4);
+});
+
+Deno.test("validateSuggestions keeps one of sets/reps or duration by workout type", () => {
+  const both = { exercises: [{ name: "Rowing Machine", sets: 3, reps: 10, duration_minutes: 12 }] };
+
+  assertEquals(validateSuggestions(both, "cardio").exercises, [{ name: "Rowing Machine", duration_minutes: 12 }]);
+  assertEquals(validateSuggestions(both, "weights").exercises, [{ name: "Rowing Machine", sets: 3, reps: 10 }]);
+});
+
+Deno.test("validateSuggestions removes duplicates and caps the list at six", () => {
+  const names = ["Squats", "squat", "Lunges", "Rows", "Curls", "Dips", "Pull-ups", "Crunches"];
+  const { exercises } = validateSuggestions({ exercises: names.map((name) => ({ name, sets: 3, reps: 10 })) }, "weights");
+
+  assertEquals(
+    exercises.map((exercise) => exercise.name),
+    ["Squats", "Lunges", "Rows", "Curls", "Dips", "Pull-ups"]
+  );
+});
+
+Deno.test("a valid reply is returned as AI suggestions linked to the library", async () => {
+  const { status, body } = await suggest(
+    { workout_type: "weights" },
+    reply([
+      { name: "Flat Bench", sets: 3, reps: 8 },
+      { name: "Squats", sets: 4, reps: 6 },
+      { name: "Push-ups", sets: 3, reps: 15 },
+      { name: "Face Pulls", sets: 3, reps: 15 },
+    ])
+  );
+  const result = body as SuggestionsResponse;
+
+  assertEquals(status, 200);
+  assertEquals(result.source, "ai");
+  assertEquals(result.fallback_reason, null);
+  assertEquals(result.exercises[0], { name: "Bench Press", sets: 3, reps: 8, exercise_id: "bench" });
+  assertEquals(result.exercises[3], { name: "Face Pulls", sets: 3, reps: 15 });
+});
+
+Deno.test("an unparseable reply falls back and says why", async () => {
+  const { body } = await suggest({ workout_type: "weights" }, "I can't help with that.");
+  const result = body as SuggestionsResponse;
+
+  assertEquals(result.source, "fallback");
+  assertEquals(result.fallback_reason, "Model reply was not valid JSON");
+  assertEquals(result.exercises[0], { name: "Bench Press", sets: 3, reps: 10, exercise_id: "bench" });
+});
+
+Deno.test("fallbacks always hold four to six exercises", async () => {
+  for (const workout_type of ["weights", "cardio", "aerobics", "hiit", "spinning", "other"]) {
+    const { body } = await suggest({ workout_type }, "not json");
+    const result = body as SuggestionsResponse;
+
+    assertEquals(result.source, "fallback");
+    assert(result.exercises.length >= 4 && result.exercises.length <= 6, `${workout_type}: ${result.exercises.length} exercises`);
+  }
+});
+
+Deno.test("a reply with no usable items falls back", async () => {
+  const { body } = await suggest({ workout_type: "weights" }, reply([{ name: "Squats" }, { sets: 3, reps: 10 }]));
+  const result = body as SuggestionsResponse;
+
+  assertEquals(result.source, "fallback");
+  assertEquals(result.fallback_reason, "Model reply had no valid exercises");
+  assertEquals(result.warnings.length, 2);
+});
+
+Deno.test("short replies are topped up to four exercises", async () => {
+  const { body } = await suggest({ workout_type: "weights" }, reply([{ name: "Push-ups", sets: 3, reps: 12 }]));
+  const result = body as SuggestionsResponse;
+
+  assertEquals(result.source, "ai");
+  assertEquals(result.exercises.length, 4);
+  assertEquals(result.exercises[0].name, "Push-ups");
+});
+
+Deno.test("exercises needing missing equipment are dropped", async () => {
+  const { body } = await suggest(
+    { workout_type: "weights", equipment: ["kettlebell"] },
+    reply([
+      { name: "Bench Press", sets: 3, reps: 10 },
+      { name: "Goblet Squat", sets: 3, reps: 12 },
+    ])
+  );
+  const result = body as SuggestionsResponse;
+
+  assert(result.exercises.every((exercise) => exercise.name !== "Bench Press"));
+  assertEquals(result.exercises[0], { name: "Goblet Squat", sets: 3, reps: 12, exercise_id: "goblet" });
+});
+
+Deno.test("with an inventory, exercises outside the library are dropped", async () => {
+  const { body } = await suggest(
+    { workout_type: "weights", equipment: [] },
+    reply([
+      { name: "Push-ups", sets: 3, reps: 15 },
+      { name: "Face Pulls", sets: 3, reps: 15 },
+    ])
+  );
+  const result = body as SuggestionsResponse;
+
+  assertEquals(result.source, "ai");
+  assertEquals(result.exercises, [{ name: "Push-ups", sets: 3, reps: 15, exercise_id: "pushup" }]);
+  assert(result.warnings.includes("Dropped 1 exercise(s) outside the library"));
+});
+
+Deno.test("with an inventory, suggestions are refused when the library can't be loaded", async () => {
+  const handler = createHandler({ loadCatalog: () => Promise.resolve([]), createProvider: () => createStubProvider() });
+  const response = await handler(
+    new Request("http://localhost/suggest-exercises", {
+      method: "POST",
+      body: JSON.stringify({ workout_type: "weights", equipment: ["barbell"] }),
+    })
+  );
+
+  assertEquals(response.status, 503);
+});
+
+Deno.test("provider rate limits are passed through", async () => {
+  const rateLimited: AIProvider = {
+    name: "rate limited",
+    model: "test",
+    complete: () => Promise.reject(new ProviderError(429, "Rate limit exceeded. Please try again later.")),
+  };
+  const { status, body } = await suggest({ workout_type: "weights" }, rateLimited);
+
+  assertEquals(status, 429);
+  assertEquals(body, { error: "Rate limit exceeded. Please try again later." });
+});
+
+Deno.test("requests without a workout type are rejected", async () => {
+  const { status } = await suggest({}, reply([]));
+
+  assertEquals(status, 400);
+});
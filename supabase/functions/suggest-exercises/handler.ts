@@ -0,0 +1,156 @@
+import { CatalogEntry, CatalogMatch, getDoableFallbacks, isDoable, mapToCatalog, normalizeExerciseName } from "./catalog.ts";
+import { HistoryWorkout, buildSystemPrompt, buildUserPrompt, progressFromHistory } from "./prompt.ts";
+import { AIProvider, ProviderError } from "./providers.ts";
+import { SUGGESTION_LIMITS, SuggestedExercise, SuggestionsResponse, extractJson, validateSuggestions } from "./schema.ts";
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+export interface ResponseContext {
+  workout_type: string;
+  catalog: CatalogEntry[];
+  available: string[] | null;
+  history: HistoryWorkout[];
+}
+
+// Turns the raw model reply into the response contract: validated, linked to the library,
+// limited to the gym's equipment, and topped up or replaced by fallbacks when needed
+export function buildSuggestionsResponse(content: unknown, context: ResponseContext): SuggestionsResponse {
+  const { workout_type, catalog, available, history } = context;
+  const warnings: string[] = [];
+  let fallbackReason: string | null = null;
+  let matches: CatalogMatch[] = [];
+
+  const parsed = extractJson(content);
+  if (!parsed.ok) {
+    fallbackReason = parsed.error;
+  } else {
+    const validated = validateSuggestions(parsed.value, workout_type);
+    warnings.push(...validated.warnings);
+    matches = mapToCatalog(validated.exercises, catalog);
+    if (matches.length === 0) fallbackReason = "Model reply had no valid exercises";
+  }
+
+  // Drop anything needing equipment the gym lacks, or that can't be checked against its inventory
+  const doable = matches.filter((match) => isDoable(match.entry, available));
+  if (doable.length < matches.length) {
+    const unmatched = matches.filter((match) => !match.entry).length;
+    const missingEquipment = matches.length - doable.length - unmatched;
+    if (unmatched > 0) warnings.push(`Dropped ${unmatched} exercise(s) outside the library`);
+    if (missingEquipment > 0) warnings.push(`Dropped ${missingEquipment} exercise(s) needing equipment the gym lacks`);
+    if (doable.length === 0) fallbackReason = "No suggested exercise fits the gym's equipment";
+  }
+
+  const fallbacks = getDoableFallbacks(workout_type, catalog, available).map((match) => match.suggestion);
+  if (fallbackReason) {
+    return { exercises: progressFromHistory(fallbacks, history), source: "fallback", fallback_reason: fallbackReason, warnings };
+  }
+
+  let exercises: SuggestedExercise[] = doable.map((match) => match.suggestion);
+  const { minExercises } = SUGGESTION_LIMITS;
+  if (exercises.length < minExercises) {
+    const suggested = new Set(exercises.map((exercise) => normalizeExerciseName(exercise.name)));
+    const extra = progressFromHistory(
+      fallbacks.filter((exercise) => !suggested.has(normalizeExerciseName(exercise.name))),
+      history
+    ).slice(0, minExercises - exercises.length);
+    if (extra.length > 0) {
+      warnings.push(`Added ${extra.length} standard exercise(s) to reach ${minExercises}`);
+      exercises = [...exercises, ...extra];
+    }
+  }
+
+  return { exercises, source: "ai", fallback_reason: null, warnings };
+}
+
+export interface HandlerDeps {
+  loadCatalog: () => Promise<CatalogEntry[]>;
+  // Resolved per request so configuration errors are reported like any other failure
+  createProvider: () => AIProvider;
+}
+
+export function createHandler({ loadCatalog, createProvider }: HandlerDeps) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const {
+        workout_type,
+        experience_level = "beginner",
+        equipment = null,
+        goals = [],
+        injuries = null,
+        recent_workouts = [],
+        target_duration_minutes = null,
+        focus_muscle_groups = [],
+      } = await req.json();
+
+      if (typeof workout_type !== "string" || workout_type.trim() === "") {
+        return jsonResponse({ error: "workout_type is required" }, 400);
+      }
+
+      // Equipment the member's gym owns; null when the gym has not listed any
+      const available: string[] | null = Array.isArray(equipment) ? equipment : null;
+      const history: HistoryWorkout[] = Array.isArray(recent_workouts) ? recent_workouts.slice(0, 5) : [];
+      const focus: string[] = Array.isArray(focus_muscle_groups) ? focus_muscle_groups : [];
+
+      const provider = createProvider();
+
+      console.log(
+        `Generating exercises for workout type: ${workout_type}, level: ${experience_level} (${provider.name}, ${provider.model})`
+      );
+
+      const catalog = await loadCatalog();
+      // Nothing can be checked against the gym's inventory without the library
+      if (available && catalog.length === 0) {
+        return jsonResponse({ error: "The exercise library is unavailable. Please try again later." }, 503);
+      }
+      const libraryNames = catalog
+        .filter((entry) => entry.workout_types.includes(workout_type) && isDoable(entry, available))
+        .filter((entry) => focus.length === 0 || entry.muscle_groups.some((group) => focus.includes(group)))
+        .map((entry) => entry.name);
+
+      const systemPrompt = buildSystemPrompt(libraryNames, available);
+      const userPrompt = buildUserPrompt({
+        workout_type,
+        experience_level,
+        goals: Array.isArray(goals) ? goals : [],
+        injuries: typeof injuries === "string" ? injuries.slice(0, 300) : null,
+        history,
+        target_duration_minutes: typeof target_duration_minutes === "number" ? target_duration_minutes : null,
+        focus,
+      });
+
+      const content = await provider.complete({ system: systemPrompt, user: userPrompt, workout_type });
+
+      console.log("AI response content:", content);
+
+      const result = buildSuggestionsResponse(content, { workout_type, catalog, available, history });
+      if (result.fallback_reason) {
+        console.error("Using fallback exercises:", result.fallback_reason);
+      }
+      if (result.warnings.length > 0) {
+        console.warn("AI reply issues:", result.warnings);
+      }
+
+      return jsonResponse(result);
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        return jsonResponse({ error: error.message }, error.status);
+      }
+      console.error("Error in suggest-exercises:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      return jsonResponse({ error: errorMessage }, 500);
+    }
+  };
+}
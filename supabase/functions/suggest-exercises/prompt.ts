@@ -0,0 +1,108 @@
+import { normalizeExerciseName } from "./catalog.ts";
+import { SUGGESTION_LIMITS, SuggestedExercise } from "./schema.ts";
+
+// Mirrors HistoryWorkout in src/lib/suggestions.ts
+export interface HistoryExercise {
+  name: string;
+  sets?: number;
+  reps?: number;
+  weight_kg?: number;
+  duration_minutes?: number;
+}
+
+export interface HistoryWorkout {
+  date: string;
+  workout_type: string;
+  exercises: HistoryExercise[];
+}
+
+export interface PromptContext {
+  workout_type: string;
+  experience_level: string;
+  goals: string[];
+  injuries: string | null;
+  history: HistoryWorkout[];
+  target_duration_minutes: number | null;
+  focus: string[];
+}
+
+export function buildSystemPrompt(libraryNames: string[], available: string[] | null) {
+  const { minExercises, maxExercises, nameLength } = SUGGESTION_LIMITS;
+
+  return `You are a fitness coach inside a gym app. Based on the workout type the user selected, generate a list of ${minExercises}-${maxExercises} relevant exercises. Match the difficulty to the user's experience level and build on their recent workouts.
+
+IMPORTANT: You must respond ONLY with valid JSON, no other text. Use this exact format:
+{
+  "exercises": [
+    { "name": "Exercise Name", "sets": 3, "reps": 10, "weight_kg": 40 },
+    { "name": "Cardio Exercise", "duration_minutes": 15 }
+  ]
+}
+
+Rules:
+- For strength exercises (weights, HIIT): include "sets" and "reps" as positive whole numbers
+- For cardio/timed exercises (cardio, aerobics, spinning): include "duration_minutes" instead, never both
+- Include "weight_kg" only when the user has logged a weight for that exercise before
+- Progress from recent workouts: a little more weight, reps or time than last time, and rotate in exercises they have not done lately
+- Never suggest exercises that load an injury the user mentions
+- Keep exercise names short and clear (at most ${nameLength.max} characters)
+- Suggest ${minExercises}-${maxExercises} exercises total${libraryNames.length > 0 ? `
+- ${available ? "Only suggest" : "Prefer"} these exercises from the gym's library, using the names exactly as written: ${libraryNames.join(", ")}` : ""}${available ? `
+- The gym only has this equipment: ${available.length > 0 ? available.join(", ") : "none"}. Only suggest exercises that need nothing else, or bodyweight exercises` : ""}`;
+}
+
+function describeHistoryExercise(exercise: HistoryExercise) {
+  if (exercise.duration_minutes !== undefined) return `${exercise.name} ${exercise.duration_minutes} min`;
+  const weight = exercise.weight_kg !== undefined ? ` @ ${exercise.weight_kg} kg` : "";
+  return `${exercise.name} ${exercise.sets}x${exercise.reps}${weight}`;
+}
+
+export function buildUserPrompt(context: PromptContext) {
+  const lines = [`Generate exercises for a ${context.experience_level} doing a ${context.workout_type} workout.`];
+
+  if (context.target_duration_minutes) {
+    lines.push(`The workout should take about ${context.target_duration_minutes} minutes.`);
+  }
+  if (context.focus.length > 0) {
+    lines.push(`Focus on these muscle groups: ${context.focus.join(", ").replace(/_/g, " ")}.`);
+  }
+  if (context.goals.length > 0) {
+    lines.push(`Their goals: ${context.goals.join(", ").replace(/_/g, " ")}.`);
+  }
+  if (context.injuries) {
+    lines.push(`Injuries or limitations: ${context.injuries}`);
+  }
+  if (context.history.length > 0) {
+    lines.push("Their most recent workouts, newest first:");
+    context.history.forEach((workout) => {
+      lines.push(`- ${workout.date} (${workout.workout_type}): ${workout.exercises.map(describeHistoryExercise).join("; ")}`);
+    });
+  } else {
+    lines.push("They have no logged workouts yet.");
+  }
+
+  return lines.join("\n");
+}
+
+// Without the AI, repeat exercises step up from the last time they were logged:
+// +2.5 kg once the planned reps were reached, otherwise one more rep; timed ones get +10%
+export function progressFromHistory(exercises: SuggestedExercise[], history: HistoryWorkout[]): SuggestedExercise[] {
+  return exercises.map((exercise) => {
+    const key = normalizeExerciseName(exercise.name);
+    const last = history
+      .flatMap((workout) => workout.exercises)
+      .find((logged) => normalizeExerciseName(logged.name) === key);
+    if (!last) return exercise;
+
+    if ("duration_minutes" in exercise) {
+      return last.duration_minutes !== undefined
+        ? { ...exercise, duration_minutes: Math.max(exercise.duration_minutes, Math.round(last.duration_minutes * 1.1)) }
+        : exercise;
+    }
+    if (last.reps === undefined) return exercise;
+    if (last.weight_kg === undefined) return { ...exercise, reps: Math.max(exercise.reps, last.reps + 1) };
+    return last.reps >= exercise.reps
+      ? { ...exercise, weight_kg: last.weight_kg + 2.5 }
+      : { ...exercise, reps: last.reps + 1, weight_kg: last.weight_kg };
+  });
+}
@@ -0,0 +1,91 @@
+import { deepStrictEqual as assertEquals, rejects, throws } from "node:assert/strict";
+import { ProviderError, createProviderFromEnv, createStubProvider } from "./providers.ts";
+
+const envOf = (values: Record<string, string>) => (key: string) => values[key];
+
+const prompt = { system: "system prompt", user: "user prompt", workout_type: "cardio" };
+
+// Replaces fetch for one call and records what was sent
+async function withFetch(response: Response, run: () => Promise<void>) {
+  const originalFetch = globalThis.fetch;
+  const calls: { url: string; init?: RequestInit }[] = [];
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    calls.push({ url: String(input), init });
+    return Promise.resolve(response);
+  };
+
+  try {
+    await run();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+  return calls;
+}
+
+const completion = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+
+Deno.test("the Lovable gateway is the default provider", () => {
+  const provider = createProviderFromEnv(envOf({ LOVABLE_API_KEY: "key" }));
+
+  assertEquals(provider.name, "Lovable AI gateway");
+  assertEquals(provider.model, "google/gemini-2.5-flash");
+  assertEquals(createProviderFromEnv(envOf({ LOVABLE_API_KEY: "key", AI_MODEL: "openai/gpt-5-mini" })).model, "openai/gpt-5-mini");
+  throws(() => createProviderFromEnv(envOf({})), /LOVABLE_API_KEY is not configured/);
+});
+
+Deno.test("the openai provider posts to the configured endpoint and model", async () => {
+  const provider = createProviderFromEnv(
+    envOf({ AI_PROVIDER: "openai", AI_BASE_URL: "http://localhost:11434/v1/", AI_API_KEY: "local", AI_MODEL: "llama3.1" })
+  );
+
+  let content = "";
+  const calls = await withFetch(completion('{"exercises": []}'), async () => {
+    content = await provider.complete(prompt);
+  });
+
+  assertEquals(content, '{"exercises": []}');
+  assertEquals(calls[0].url, "http://localhost:11434/v1/chat/completions");
+  assertEquals(JSON.parse(String(calls[0].init?.body)), {
+    model: "llama3.1",
+    messages: [
+      { role: "system", content: "system prompt" },
+      { role: "user", content: "user prompt" },
+    ],
+  });
+});
+
+Deno.test("the openai provider needs a base URL, key and model", () => {
+  throws(
+    () => createProviderFromEnv(envOf({ AI_PROVIDER: "openai", AI_API_KEY: "key" })),
+    /AI_BASE_URL, AI_API_KEY and AI_MODEL are required/
+  );
+});
+
+Deno.test("rate limits and exhausted credits become provider errors", async () => {
+  const provider = createProviderFromEnv(envOf({ LOVABLE_API_KEY: "key" }));
+
+  const withStatus = (status: number) => (error: unknown) => error instanceof ProviderError && error.status === status;
+
+  await withFetch(new Response("slow down", { status: 429 }), async () => {
+    await rejects(() => provider.complete(prompt), withStatus(429));
+  });
+  await withFetch(new Response("pay up", { status: 402 }), async () => {
+    await rejects(() => provider.complete(prompt), withStatus(402));
+  });
+});
+
+Deno.test("the stub answers without the network", async () => {
+  const stub = createProviderFromEnv(envOf({ AI_PROVIDER: "stub" }));
+
+  assertEquals(JSON.parse(await stub.complete(prompt)).exercises[0], { name: "Treadmill Jog", duration_minutes: 15 });
+  assertEquals(await createStubProvider("canned").complete(prompt), "canned");
+  assertEquals(
+    await createProviderFromEnv(envOf({ AI_PROVIDER: "stub", AI_STUB_REPLY: '{"exercises": []}' })).complete(prompt),
+    '{"exercises": []}'
+  );
+});
+
+Deno.test("unknown providers are rejected", () => {
+  throws(() => createProviderFromEnv(envOf({ AI_PROVIDER: "carrier-pigeon" })), /Unknown AI_PROVIDER "carrier-pigeon"/);
+});
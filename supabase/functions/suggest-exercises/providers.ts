@@ -0,0 +1,127 @@
+import { getFallbackExercises } from "./catalog.ts";
+
+// Model backends for suggest-exercises, chosen with the AI_PROVIDER secret:
+//   lovable (default)  Lovable AI gateway; needs LOVABLE_API_KEY
+//   openai             any OpenAI-compatible /chat/completions API; needs AI_BASE_URL, AI_API_KEY and AI_MODEL
+//   stub               no network; replies with AI_STUB_REPLY or the standard list for the workout type
+// AI_MODEL also overrides the gateway's default model.
+
+export interface SuggestionPrompt {
+  system: string;
+  user: string;
+  workout_type: string;
+}
+
+export interface AIProvider {
+  name: string;
+  model: string;
+  // Resolves to the raw reply text; validation happens in the handler
+  complete(prompt: SuggestionPrompt): Promise<string>;
+}
+
+// Failures the client should see with their own status, e.g. rate limits
+export class ProviderError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+const LOVABLE_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const LOVABLE_DEFAULT_MODEL = "google/gemini-2.5-flash";
+
+interface OpenAICompatibleConfig {
+  name: string;
+  url: string;
+  apiKey: string;
+  model: string;
+}
+
+export function createOpenAICompatibleProvider({ name, url, apiKey, model }: OpenAICompatibleConfig): AIProvider {
+  return {
+    name,
+    model,
+    async complete({ system, user }) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: "system", content: system },
+            { role: "user", content: user },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          throw new ProviderError(429, "Rate limit exceeded. Please try again later.");
+        }
+        if (response.status === 402) {
+          throw new ProviderError(402, "AI credits exhausted. Please add credits to continue.");
+        }
+        const errorText = await response.text();
+        console.error(`${name} error:`, response.status, errorText);
+        throw new Error(`AI gateway error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+  };
+}
+
+// Deterministic replies for offline development and tests
+export function createStubProvider(reply?: string | ((prompt: SuggestionPrompt) => string)): AIProvider {
+  return {
+    name: "stub",
+    model: "stub",
+    complete(prompt) {
+      if (typeof reply === "function") return Promise.resolve(reply(prompt));
+      return Promise.resolve(reply ?? JSON.stringify({ exercises: getFallbackExercises(prompt.workout_type) }));
+    },
+  };
+}
+
+type Env = (key: string) => string | undefined;
+
+export function createProviderFromEnv(env: Env = (key) => Deno.env.get(key)): AIProvider {
+  const providerName = env("AI_PROVIDER") || "lovable";
+  const model = env("AI_MODEL");
+
+  switch (providerName) {
+    case "lovable": {
+      const apiKey = env("LOVABLE_API_KEY");
+      if (!apiKey) {
+        throw new Error("LOVABLE_API_KEY is not configured");
+      }
+      return createOpenAICompatibleProvider({
+        name: "Lovable AI gateway",
+        url: LOVABLE_GATEWAY_URL,
+        apiKey,
+        model: model || LOVABLE_DEFAULT_MODEL,
+      });
+    }
+    case "openai": {
+      const baseUrl = env("AI_BASE_URL");
+      const apiKey = env("AI_API_KEY");
+      if (!baseUrl || !apiKey || !model) {
+        throw new Error("AI_BASE_URL, AI_API_KEY and AI_MODEL are required for the openai provider");
+      }
+      return createOpenAICompatibleProvider({
+        name: "OpenAI-compatible API",
+        url: `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        apiKey,
+        model,
+      });
+    }
+    case "stub":
+      return createStubProvider(env("AI_STUB_REPLY"));
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${providerName}"; use lovable, openai or stub`);
+  }
+}
@@ -0,0 +1,178 @@
+import { normalizeExerciseName } from "./catalog.ts";
+
+// Response contract shared with src/lib/suggestions.ts. Every exercise is either
+// sets + reps or a duration, never both.
+export interface SetsSuggestion {
+  name: string;
+  sets: number;
+  reps: number;
+  weight_kg?: number;
+  exercise_id?: string;
+}
+
+export interface DurationSuggestion {
+  name: string;
+  duration_minutes: number;
+  exercise_id?: string;
+}
+
+export type SuggestedExercise = SetsSuggestion | DurationSuggestion;
+
+export interface SuggestionsResponse {
+  exercises: SuggestedExercise[];
+  // "fallback" when the model reply could not be used at all
+  source: "ai" | "fallback";
+  fallback_reason: string | null;
+  // Repairs and dropped items, for debugging suggestion quality
+  warnings: string[];
+}
+
+export const SUGGESTION_LIMITS = {
+  minExercises: 4,
+  maxExercises: 6,
+  nameLength: { min: 2, max: 60 },
+  sets: { min: 1, max: 10 },
+  reps: { min: 1, max: 100 },
+  duration_minutes: { min: 1, max: 120 },
+  weight_kg: { min: 0.5, max: 500 },
+};
+
+// Workout types logged by duration when a reply gives both sets/reps and a duration
+const timedWorkoutTypes = ["cardio", "aerobics", "spinning", "other"];
+
+export type ParsedReply = { ok: true; value: unknown } | { ok: false; error: string };
+
+// Models sometimes wrap the JSON in a code fence or a sentence; the outermost object is used
+export function extractJson(content: unknown): ParsedReply {
+  if (typeof content !== "string" || content.trim() === "") {
+    return { ok: false, error: "Model reply was empty" };
+  }
+
+  const unfenced = content.replace(/```(?:json)?/gi, "").trim();
+  const candidates = [unfenced];
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  if (start !== -1 && end > start) candidates.push(unfenced.slice(start, end + 1));
+
+  for (const candidate of candidates) {
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return { ok: false, error: "Model reply was not valid JSON" };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Numbers and numeric strings are accepted; fractions are rounded and values above the
+// limit clamped. Anything missing, non-numeric or below the minimum is invalid (null).
+function toBoundedNumber(
+  value: unknown,
+  field: "sets" | "reps" | "duration_minutes" | "weight_kg",
+  label: string,
+  warnings: string[],
+  integer = true
+) {
+  const { min, max } = SUGGESTION_LIMITS[field];
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isFinite(number)) return null;
+
+  let repaired = integer ? Math.round(number) : Math.round(number * 10) / 10;
+  if (repaired < min) return null;
+  if (repaired > max) {
+    warnings.push(`${label}: ${field} ${repaired} clamped to ${max}`);
+    repaired = max;
+  } else if (repaired !== number) {
+    warnings.push(`${label}: ${field} ${number} rounded to ${repaired}`);
+  }
+  return repaired;
+}
+
+function validateExercise(raw: unknown, index: number, workoutType: string, warnings: string[]): SuggestedExercise | null {
+  const label = `Item ${index + 1}`;
+  if (!isRecord(raw)) {
+    warnings.push(`${label} dropped: not an object`);
+    return null;
+  }
+
+  const name = typeof raw.name === "string" ? raw.name.replace(/\s+/g, " ").trim() : "";
+  const { min, max } = SUGGESTION_LIMITS.nameLength;
+  if (name.length < min || name.length > max) {
+    warnings.push(`${label} dropped: name must be ${min}-${max} characters`);
+    return null;
+  }
+
+  const itemLabel = `${label} (${name})`;
+  const hasSets = raw.sets !== undefined || raw.reps !== undefined;
+  const hasDuration = raw.duration_minutes !== undefined;
+  if (!hasSets && !hasDuration) {
+    warnings.push(`${itemLabel} dropped: needs sets and reps or a duration`);
+    return null;
+  }
+
+  let useDuration = hasDuration;
+  if (hasSets && hasDuration) {
+    useDuration = timedWorkoutTypes.includes(workoutType);
+    warnings.push(`${itemLabel}: had both sets/reps and a duration, kept ${useDuration ? "the duration" : "sets/reps"}`);
+  }
+
+  if (useDuration) {
+    const duration = toBoundedNumber(raw.duration_minutes, "duration_minutes", itemLabel, warnings);
+    if (duration === null) {
+      warnings.push(`${itemLabel} dropped: duration_minutes must be a positive number`);
+      return null;
+    }
+    return { name, duration_minutes: duration };
+  }
+
+  const sets = toBoundedNumber(raw.sets, "sets", itemLabel, warnings);
+  const reps = toBoundedNumber(raw.reps, "reps", itemLabel, warnings);
+  if (sets === null || reps === null) {
+    warnings.push(`${itemLabel} dropped: sets and reps must both be positive numbers`);
+    return null;
+  }
+
+  const suggestion: SetsSuggestion = { name, sets, reps };
+  if (raw.weight_kg !== undefined && raw.weight_kg !== null) {
+    const weight = toBoundedNumber(raw.weight_kg, "weight_kg", itemLabel, warnings, false);
+    if (weight === null) {
+      warnings.push(`${itemLabel}: invalid weight_kg removed`);
+    } else {
+      suggestion.weight_kg = weight;
+    }
+  }
+  return suggestion;
+}
+
+// Checks a parsed reply against the response contract. Invalid items are dropped and
+// repairable ones fixed; every change is recorded in warnings.
+export function validateSuggestions(value: unknown, workoutType: string) {
+  const warnings: string[] = [];
+  if (!isRecord(value) || !Array.isArray(value.exercises)) {
+    return { exercises: [] as SuggestedExercise[], warnings: ["Reply has no exercises array"] };
+  }
+
+  const seen = new Set<string>();
+  const exercises: SuggestedExercise[] = [];
+  value.exercises.forEach((raw, index) => {
+    const exercise = validateExercise(raw, index, workoutType, warnings);
+    if (!exercise) return;
+
+    const key = normalizeExerciseName(exercise.name);
+    if (seen.has(key)) {
+      warnings.push(`Item ${index + 1} (${exercise.name}) dropped: duplicate`);
+      return;
+    }
+    seen.add(key);
+    exercises.push(exercise);
+  });
+
+  if (exercises.length > SUGGESTION_LIMITS.maxExercises) {
+    warnings.push(`Kept the first ${SUGGESTION_LIMITS.maxExercises} of ${exercises.length} exercises`);
+    exercises.length = SUGGESTION_LIMITS.maxExercises;
+  }
+  return { exercises, warnings };
+}
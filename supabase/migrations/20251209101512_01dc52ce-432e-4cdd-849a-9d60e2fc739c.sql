@@ -0,0 +1,75 @@
+-- Create check_ins table to persist gym visits
+CREATE TABLE public.check_ins (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  gym_id UUID NOT NULL REFERENCES public.gyms(id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'qr', 'kiosk')),
+  points_awarded INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_check_ins_user_created ON public.check_ins (user_id, created_at DESC);
+CREATE INDEX idx_check_ins_gym_created ON public.check_ins (gym_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.check_ins ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own check-ins
+CREATE POLICY "Users can view their own check-ins"
+ON public.check_ins
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Owners can view check-ins at their gym
+CREATE POLICY "Owners can view their gym check-ins"
+ON public.check_ins
+FOR SELECT
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- No INSERT/UPDATE/DELETE policies: check-ins are only written through record_check_in
+
+-- Points awarded for each gym visit (matches the Rewards page copy)
+CREATE OR REPLACE FUNCTION public.record_check_in(_source TEXT DEFAULT 'manual')
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _gym_id uuid;
+  _points integer := 50;
+  _check_in public.check_ins;
+  _total_points integer;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _gym_id := public.get_user_gym_id(_user_id);
+  IF _gym_id IS NULL THEN
+    RAISE EXCEPTION 'Join a gym before checking in';
+  END IF;
+
+  INSERT INTO public.check_ins (user_id, gym_id, source, points_awarded)
+  VALUES (_user_id, _gym_id, _source, _points)
+  RETURNING * INTO _check_in;
+
+  UPDATE public.profiles
+  SET total_points = total_points + _points
+  WHERE user_id = _user_id
+  RETURNING total_points INTO _total_points;
+
+  RETURN jsonb_build_object(
+    'check_in_id', _check_in.id,
+    'checked_in_at', _check_in.created_at,
+    'points_awarded', _points,
+    'total_points', _total_points
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_check_in(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_check_in(TEXT) TO authenticated;
@@ -0,0 +1,202 @@
+-- Create points ledger; profiles.total_points is derived from it
+CREATE TABLE public.points_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  gym_id UUID REFERENCES public.gyms(id) ON DELETE SET NULL,
+  delta INTEGER NOT NULL CHECK (delta <> 0),
+  reason TEXT NOT NULL,
+  source_table TEXT,
+  source_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_points_transactions_user_created ON public.points_transactions (user_id, created_at DESC);
+
+-- A source row can only earn points once per reason
+CREATE UNIQUE INDEX idx_points_transactions_source
+ON public.points_transactions (reason, source_table, source_id)
+WHERE source_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.points_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own transactions
+CREATE POLICY "Users can view their own points transactions"
+ON public.points_transactions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Owners can view transactions at their gym
+CREATE POLICY "Owners can view their gym points transactions"
+ON public.points_transactions
+FOR SELECT
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- No INSERT/UPDATE/DELETE policies: the ledger is only written through award_points
+
+-- Carry existing balances into the ledger before the balance trigger exists
+INSERT INTO public.points_transactions (user_id, gym_id, delta, reason)
+SELECT user_id, gym_id, total_points, 'opening_balance'
+FROM public.profiles
+WHERE total_points <> 0;
+
+-- Keep profiles.total_points in sync with the ledger
+CREATE OR REPLACE FUNCTION public.apply_points_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET total_points = total_points + NEW.delta
+  WHERE user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_points_transaction_created
+AFTER INSERT ON public.points_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_points_transaction();
+
+-- Members cannot set their own balance through the profile policies
+CREATE OR REPLACE FUNCTION public.protect_profile_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.total_points := 0;
+    ELSIF NEW.total_points IS DISTINCT FROM OLD.total_points THEN
+      RAISE EXCEPTION 'total_points can only be changed through the points ledger';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_total_points
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_points();
+
+-- Single entry point for earning or spending points
+CREATE OR REPLACE FUNCTION public.award_points(
+  _user_id UUID,
+  _delta INTEGER,
+  _reason TEXT,
+  _source_table TEXT DEFAULT NULL,
+  _source_id UUID DEFAULT NULL
+)
+RETURNS public.points_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.points_transactions;
+BEGIN
+  INSERT INTO public.points_transactions (user_id, gym_id, delta, reason, source_table, source_id)
+  VALUES (_user_id, public.get_user_gym_id(_user_id), _delta, _reason, _source_table, _source_id)
+  RETURNING * INTO _transaction;
+  RETURN _transaction;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.award_points(UUID, INTEGER, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Calories a session of _duration_minutes can plausibly burn: at most 25 kcal a minute
+-- (well above an elite athlete's sustained rate) for at most a day
+CREATE OR REPLACE FUNCTION public.plausible_workout_calories(_calories INTEGER, _duration_minutes INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT LEAST(GREATEST(_calories, 0), LEAST(GREATEST(_duration_minutes, 0), 1440) * 25)
+$$;
+
+-- Workouts are priced here: the points_earned a client sends is always replaced, and the
+-- calories it is priced from are bounded by the session length
+CREATE OR REPLACE FUNCTION public.price_workout()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.calories_burned := public.plausible_workout_calories(NEW.calories_burned, NEW.total_duration_minutes);
+  NEW.points_earned := round(NEW.calories_burned * 0.1);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER price_workout
+BEFORE INSERT ON public.workouts
+FOR EACH ROW
+EXECUTE FUNCTION public.price_workout();
+
+-- Award workout points through the ledger
+CREATE OR REPLACE FUNCTION public.award_workout_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.points_earned > 0 THEN
+    PERFORM public.award_points(NEW.user_id, NEW.points_earned, 'workout', 'workouts', NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_workout_created
+AFTER INSERT ON public.workouts
+FOR EACH ROW
+EXECUTE FUNCTION public.award_workout_points();
+
+-- Record check-in points through the ledger
+CREATE OR REPLACE FUNCTION public.record_check_in(_source TEXT DEFAULT 'manual')
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _gym_id uuid;
+  _points integer := 50;
+  _check_in public.check_ins;
+  _total_points integer;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _gym_id := public.get_user_gym_id(_user_id);
+  IF _gym_id IS NULL THEN
+    RAISE EXCEPTION 'Join a gym before checking in';
+  END IF;
+
+  INSERT INTO public.check_ins (user_id, gym_id, source, points_awarded)
+  VALUES (_user_id, _gym_id, _source, _points)
+  RETURNING * INTO _check_in;
+
+  PERFORM public.award_points(_user_id, _points, 'check_in', 'check_ins', _check_in.id);
+
+  SELECT total_points INTO _total_points
+  FROM public.profiles
+  WHERE user_id = _user_id;
+
+  RETURN jsonb_build_object(
+    'check_in_id', _check_in.id,
+    'checked_in_at', _check_in.created_at,
+    'points_awarded', _points,
+    'total_points', _total_points
+  );
+END;
+$$;
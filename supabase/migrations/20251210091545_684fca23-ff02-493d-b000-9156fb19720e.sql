@@ -0,0 +1,218 @@
+-- Gyms define when their week starts (0 = Sunday ... 6 = Saturday) in their own timezone
+ALTER TABLE public.gyms
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC',
+  ADD COLUMN week_start SMALLINT NOT NULL DEFAULT 0 CHECK (week_start BETWEEN 0 AND 6);
+
+-- Reject unknown timezone names
+CREATE OR REPLACE FUNCTION public.validate_gym_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE NEW.timezone;
+  RETURN NEW;
+EXCEPTION
+  WHEN invalid_parameter_value THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+END;
+$$;
+
+CREATE TRIGGER validate_gyms_timezone
+BEFORE INSERT OR UPDATE OF timezone ON public.gyms
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_gym_timezone();
+
+-- Member's weekly visit goal (NULL until one is chosen)
+ALTER TABLE public.profiles
+  ADD COLUMN weekly_goal INTEGER CHECK (weekly_goal BETWEEN 1 AND 7);
+
+-- First local day of the gym week containing _at
+CREATE OR REPLACE FUNCTION public.gym_week_start(_gym_id UUID, _at TIMESTAMP WITH TIME ZONE)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT local_day - ((EXTRACT(DOW FROM local_day)::int - g.week_start + 7) % 7)
+  FROM public.gyms g,
+    LATERAL (SELECT (_at AT TIME ZONE g.timezone)::date AS local_day) d
+  WHERE g.id = _gym_id
+$$;
+
+-- Distinct local days with a check-in or workout during the gym week starting _week_start
+CREATE OR REPLACE FUNCTION public.member_week_visits(_user_id UUID, _week_start DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(DISTINCT (activity.created_at AT TIME ZONE g.timezone)::date)::int
+  FROM public.gyms g
+  JOIN (
+    SELECT created_at FROM public.check_ins WHERE user_id = _user_id
+    UNION ALL
+    SELECT created_at FROM public.workouts WHERE user_id = _user_id
+  ) activity ON true
+  WHERE g.id = public.get_user_gym_id(_user_id)
+    AND (activity.created_at AT TIME ZONE g.timezone)::date >= _week_start
+    AND (activity.created_at AT TIME ZONE g.timezone)::date < _week_start + 7
+$$;
+
+-- Goal that applies to the member for a given week
+CREATE OR REPLACE FUNCTION public.member_weekly_goal(_user_id UUID, _week_start DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT weekly_goal FROM public.profiles WHERE user_id = _user_id
+$$;
+
+-- Consecutive weeks, ending with _through_week, in which the member hit their goal
+CREATE OR REPLACE FUNCTION public.compute_member_streak(_user_id UUID, _through_week DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _week date := _through_week;
+  _goal integer;
+  _streak integer := 0;
+BEGIN
+  LOOP
+    _goal := public.member_weekly_goal(_user_id, _week);
+    EXIT WHEN _goal IS NULL OR public.member_week_visits(_user_id, _week) < _goal;
+    _streak := _streak + 1;
+    _week := _week - 7;
+  END LOOP;
+  RETURN _streak;
+END;
+$$;
+
+-- Current streak for the signed-in member; the running week counts once its goal is hit
+CREATE OR REPLACE FUNCTION public.get_my_streak()
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _gym_id uuid := public.get_user_gym_id(auth.uid());
+  _current_week date;
+  _goal integer;
+BEGIN
+  IF _gym_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  _current_week := public.gym_week_start(_gym_id, now());
+  _goal := public.member_weekly_goal(_user_id, _current_week);
+
+  IF _goal IS NOT NULL AND public.member_week_visits(_user_id, _current_week) >= _goal THEN
+    RETURN public.compute_member_streak(_user_id, _current_week);
+  END IF;
+  RETURN public.compute_member_streak(_user_id, _current_week - 7);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gym_week_start(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.member_week_visits(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.member_weekly_goal(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.compute_member_streak(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_my_streak() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_streak() TO authenticated;
+
+-- Closed weeks per member, written at week rollover
+CREATE TABLE public.member_weeks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  gym_id UUID NOT NULL REFERENCES public.gyms(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL,
+  visits INTEGER NOT NULL DEFAULT 0,
+  goal INTEGER,
+  goal_met BOOLEAN NOT NULL DEFAULT false,
+  streak INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, week_start)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.member_weeks ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own closed weeks
+CREATE POLICY "Users can view their own member weeks"
+ON public.member_weeks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Points for each week that extends a streak
+CREATE OR REPLACE FUNCTION public.close_member_weeks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _streak_bonus integer := 25;
+  _member record;
+  _week date;
+  _goal integer;
+  _visits integer;
+  _goal_met boolean;
+  _member_week public.member_weeks;
+  _closed integer := 0;
+BEGIN
+  FOR _member IN
+    SELECT user_id, gym_id FROM public.profiles WHERE gym_id IS NOT NULL
+  LOOP
+    _week := public.gym_week_start(_member.gym_id, now()) - 7;
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.member_weeks WHERE user_id = _member.user_id AND week_start = _week
+    );
+
+    _goal := public.member_weekly_goal(_member.user_id, _week);
+    _visits := public.member_week_visits(_member.user_id, _week);
+    _goal_met := _goal IS NOT NULL AND _visits >= _goal;
+
+    INSERT INTO public.member_weeks (user_id, gym_id, week_start, visits, goal, goal_met, streak)
+    VALUES (
+      _member.user_id,
+      _member.gym_id,
+      _week,
+      _visits,
+      _goal,
+      _goal_met,
+      CASE WHEN _goal_met THEN public.compute_member_streak(_member.user_id, _week) ELSE 0 END
+    )
+    RETURNING * INTO _member_week;
+
+    IF _member_week.streak >= 2 THEN
+      PERFORM public.award_points(_member.user_id, _streak_bonus, 'streak_bonus', 'member_weeks', _member_week.id);
+    END IF;
+
+    _closed := _closed + 1;
+  END LOOP;
+
+  RETURN _closed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_member_weeks() FROM PUBLIC, anon, authenticated;
+
+-- Run hourly so every gym's rollover is picked up in its own timezone
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'close-member-weeks',
+  '5 * * * *',
+  $$SELECT public.close_member_weeks();$$
+);
@@ -0,0 +1,106 @@
+-- History of weekly visit goals; profiles.weekly_goal holds the current one
+CREATE TABLE public.weekly_goals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  goal INTEGER NOT NULL CHECK (goal BETWEEN 1 AND 7),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_weekly_goals_user_created ON public.weekly_goals (user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.weekly_goals ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own goal history
+CREATE POLICY "Users can view their own weekly goals"
+ON public.weekly_goals
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- History is written by the profile trigger below, never directly
+
+-- Seed history with goals chosen before this migration
+INSERT INTO public.weekly_goals (user_id, goal)
+SELECT user_id, weekly_goal
+FROM public.profiles
+WHERE weekly_goal IS NOT NULL;
+
+-- Record every change of profiles.weekly_goal
+CREATE OR REPLACE FUNCTION public.record_weekly_goal_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.weekly_goal IS NOT NULL AND NEW.weekly_goal IS DISTINCT FROM OLD.weekly_goal THEN
+    INSERT INTO public.weekly_goals (user_id, goal)
+    VALUES (NEW.user_id, NEW.weekly_goal);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_profile_weekly_goal_changed
+AFTER UPDATE OF weekly_goal ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.record_weekly_goal_change();
+
+-- A week is measured against the goal in force when it started, so lowering the goal late in
+-- a week cannot earn that week's bonus. Weeks before the first goal use the first goal.
+CREATE OR REPLACE FUNCTION public.member_weekly_goal(_user_id UUID, _week_start DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT wg.goal
+      FROM public.weekly_goals wg
+      JOIN public.gyms g ON g.id = public.get_user_gym_id(_user_id)
+      WHERE wg.user_id = _user_id
+        AND wg.created_at < (_week_start::timestamp AT TIME ZONE g.timezone)
+      ORDER BY wg.created_at DESC
+      LIMIT 1
+    ),
+    (
+      SELECT wg.goal
+      FROM public.weekly_goals wg
+      WHERE wg.user_id = _user_id
+      ORDER BY wg.created_at
+      LIMIT 1
+    )
+  )
+$$;
+
+-- Visits and goal for the signed-in member's running week
+CREATE OR REPLACE FUNCTION public.get_my_week_progress()
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _gym_id uuid := public.get_user_gym_id(auth.uid());
+  _week date;
+BEGIN
+  IF _gym_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _week := public.gym_week_start(_gym_id, now());
+
+  RETURN jsonb_build_object(
+    'week_start', _week,
+    'visits', public.member_week_visits(_user_id, _week),
+    'goal', public.member_weekly_goal(_user_id, _week)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_week_progress() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_week_progress() TO authenticated;
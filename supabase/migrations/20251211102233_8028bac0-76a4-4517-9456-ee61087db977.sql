@@ -0,0 +1,155 @@
+-- Weekly summaries carry the points earned and bonuses awarded at settlement
+ALTER TABLE public.member_weeks
+  ADD COLUMN points_earned INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN goal_bonus_points INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN streak_bonus_points INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill streak bonuses already paid by the previous rollover job
+UPDATE public.member_weeks mw
+SET streak_bonus_points = pt.delta
+FROM public.points_transactions pt
+WHERE pt.reason = 'streak_bonus'
+  AND pt.source_table = 'member_weeks'
+  AND pt.source_id = mw.id;
+
+CREATE INDEX idx_member_weeks_gym_week ON public.member_weeks (gym_id, week_start DESC);
+
+-- Owners can view weekly summaries for their gym
+CREATE POLICY "Owners can view their gym member weeks"
+ON public.member_weeks
+FOR SELECT
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Settlement replaces the streak-only rollover job
+SELECT cron.unschedule('close-member-weeks');
+DROP FUNCTION IF EXISTS public.close_member_weeks();
+
+-- Close every completed, unsettled week per member (catching up at most four weeks),
+-- awarding the goal bonus and streak bonus through the points ledger
+CREATE OR REPLACE FUNCTION public.settle_member_weeks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _goal_bonus integer := 100;
+  _streak_bonus integer := 25;
+  _member record;
+  _timezone text;
+  _last_week date;
+  _week date;
+  _goal integer;
+  _visits integer;
+  _goal_met boolean;
+  _streak integer;
+  _points_earned integer;
+  _member_week public.member_weeks;
+  _settled integer := 0;
+BEGIN
+  FOR _member IN
+    SELECT user_id, gym_id FROM public.profiles WHERE gym_id IS NOT NULL
+  LOOP
+    SELECT timezone INTO _timezone FROM public.gyms WHERE id = _member.gym_id;
+    _last_week := public.gym_week_start(_member.gym_id, now()) - 7;
+
+    SELECT GREATEST(COALESCE(MAX(week_start) + 7, _last_week), _last_week - 21)
+    INTO _week
+    FROM public.member_weeks
+    WHERE user_id = _member.user_id;
+
+    WHILE _week <= _last_week LOOP
+      _goal := public.member_weekly_goal(_member.user_id, _week);
+      _visits := public.member_week_visits(_member.user_id, _week);
+      _goal_met := _goal IS NOT NULL AND _visits >= _goal;
+      _streak := CASE WHEN _goal_met THEN public.compute_member_streak(_member.user_id, _week) ELSE 0 END;
+
+      SELECT COALESCE(SUM(delta), 0)::int INTO _points_earned
+      FROM public.points_transactions
+      WHERE user_id = _member.user_id
+        AND reason IN ('check_in', 'workout')
+        AND created_at >= (_week::timestamp AT TIME ZONE _timezone)
+        AND created_at < ((_week + 7)::timestamp AT TIME ZONE _timezone);
+
+      INSERT INTO public.member_weeks (
+        user_id, gym_id, week_start, visits, goal, goal_met, streak,
+        points_earned, goal_bonus_points, streak_bonus_points
+      )
+      VALUES (
+        _member.user_id,
+        _member.gym_id,
+        _week,
+        _visits,
+        _goal,
+        _goal_met,
+        _streak,
+        _points_earned,
+        CASE WHEN _goal_met THEN _goal_bonus ELSE 0 END,
+        CASE WHEN _streak >= 2 THEN _streak_bonus ELSE 0 END
+      )
+      ON CONFLICT (user_id, week_start) DO NOTHING
+      RETURNING * INTO _member_week;
+
+      IF _member_week.id IS NOT NULL THEN
+        IF _member_week.goal_bonus_points > 0 THEN
+          PERFORM public.award_points(_member.user_id, _member_week.goal_bonus_points, 'goal_bonus', 'member_weeks', _member_week.id);
+        END IF;
+        IF _member_week.streak_bonus_points > 0 THEN
+          PERFORM public.award_points(_member.user_id, _member_week.streak_bonus_points, 'streak_bonus', 'member_weeks', _member_week.id);
+        END IF;
+        _settled := _settled + 1;
+      END IF;
+
+      _member_week := NULL;
+      _week := _week + 7;
+    END LOOP;
+  END LOOP;
+
+  RETURN _settled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_member_weeks() FROM PUBLIC, anon, authenticated;
+
+-- Run hourly so every gym's rollover is picked up in its own timezone
+SELECT cron.schedule(
+  'settle-member-weeks',
+  '5 * * * *',
+  $$SELECT public.settle_member_weeks();$$
+);
+
+-- The running week's progress also reports the points the member has earned since it started
+CREATE OR REPLACE FUNCTION public.get_my_week_progress()
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _gym public.gyms;
+  _week date;
+BEGIN
+  SELECT * INTO _gym FROM public.gyms WHERE id = public.get_user_gym_id(_user_id);
+  IF _gym.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _week := public.gym_week_start(_gym.id, now());
+
+  RETURN jsonb_build_object(
+    'week_start', _week,
+    'visits', public.member_week_visits(_user_id, _week),
+    'goal', public.member_weekly_goal(_user_id, _week),
+    'points', (
+      SELECT COALESCE(SUM(delta), 0)::int
+      FROM public.points_transactions
+      WHERE user_id = _user_id
+        AND created_at >= _week::timestamp AT TIME ZONE _gym.timezone
+    )
+  );
+END;
+$$;
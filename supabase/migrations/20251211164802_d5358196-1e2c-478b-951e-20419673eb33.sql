@@ -0,0 +1,81 @@
+-- Leaderboard of real points and visits for the caller's gym ('gym') or every gym ('all').
+-- Returns the top _limit members plus the caller's own row when they rank lower.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(_scope TEXT DEFAULT 'gym', _limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  gym_id UUID,
+  gym_name TEXT,
+  points INTEGER,
+  visits INTEGER,
+  rank BIGINT,
+  member_count BIGINT,
+  is_current_user BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _caller uuid := auth.uid();
+  _caller_gym uuid := public.get_user_gym_id(auth.uid());
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _scope NOT IN ('gym', 'all') THEN
+    RAISE EXCEPTION 'Unknown leaderboard scope: %', _scope;
+  END IF;
+
+  IF _scope = 'gym' AND _caller_gym IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT p.user_id, p.name, p.gym_id, p.total_points
+    FROM public.profiles p
+    WHERE p.gym_id IS NOT NULL
+      AND (_scope = 'all' OR p.gym_id = _caller_gym)
+  ),
+  visit_counts AS (
+    SELECT c.user_id, COUNT(*)::int AS visits
+    FROM public.check_ins c
+    WHERE c.user_id IN (SELECT m.user_id FROM members m)
+    GROUP BY c.user_id
+  ),
+  ranked AS (
+    SELECT
+      m.user_id,
+      m.name,
+      m.gym_id,
+      g.name AS gym_name,
+      m.total_points AS points,
+      COALESCE(v.visits, 0) AS visits,
+      RANK() OVER (ORDER BY m.total_points DESC) AS rank,
+      COUNT(*) OVER () AS member_count
+    FROM members m
+    JOIN public.gyms g ON g.id = m.gym_id
+    LEFT JOIN visit_counts v ON v.user_id = m.user_id
+  )
+  SELECT
+    r.user_id,
+    r.name,
+    r.gym_id,
+    r.gym_name,
+    r.points,
+    r.visits,
+    r.rank,
+    r.member_count,
+    r.user_id = _caller AS is_current_user
+  FROM ranked r
+  WHERE r.rank <= _limit OR r.user_id = _caller
+  ORDER BY r.rank, r.name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_leaderboard(TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,247 @@
+-- Local date on which the gym's current 'week' or 'month' started at _at (NULL for 'all')
+CREATE OR REPLACE FUNCTION public.gym_period_start(_gym_id UUID, _period TEXT, _at TIMESTAMP WITH TIME ZONE)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _period
+    WHEN 'week' THEN public.gym_week_start(g.id, _at)
+    WHEN 'month' THEN date_trunc('month', _at AT TIME ZONE g.timezone)::date
+  END
+  FROM public.gyms g
+  WHERE g.id = _gym_id
+$$;
+
+-- Ranked standings for one gym (or every gym when _gym_id is NULL) over the period containing _at.
+-- Weekly and monthly boards count the points credited to the ledger inside the window in each
+-- member's gym timezone; 'all' uses lifetime points. Ties are broken by visits, then by the
+-- earliest member to join, so the same data always produces the same ranking.
+CREATE OR REPLACE FUNCTION public.leaderboard_standings(_gym_id UUID, _period TEXT, _at TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  gym_id UUID,
+  gym_name TEXT,
+  points INTEGER,
+  visits INTEGER,
+  rank BIGINT,
+  member_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH members AS (
+    SELECT
+      p.user_id,
+      p.name,
+      p.gym_id,
+      g.name AS gym_name,
+      p.total_points,
+      p.created_at,
+      ps.local_start::timestamp AT TIME ZONE g.timezone AS window_start,
+      (ps.local_start + CASE WHEN _period = 'week' THEN interval '7 days' ELSE interval '1 month' END)
+        AT TIME ZONE g.timezone AS window_end
+    FROM public.profiles p
+    JOIN public.gyms g ON g.id = p.gym_id
+    CROSS JOIN LATERAL (SELECT public.gym_period_start(g.id, _period, _at) AS local_start) ps
+    WHERE _gym_id IS NULL OR p.gym_id = _gym_id
+  ),
+  visit_totals AS (
+    SELECT c.user_id, COUNT(*)::int AS visits
+    FROM public.check_ins c
+    JOIN members m ON m.user_id = c.user_id
+    WHERE _period = 'all' OR (c.created_at >= m.window_start AND c.created_at < m.window_end)
+    GROUP BY c.user_id
+  ),
+  -- Points credited through the ledger, so only what the server priced counts. Carried-over
+  -- balances and reward spending are not earnings.
+  point_totals AS (
+    SELECT t.user_id, COALESCE(SUM(t.delta), 0)::int AS points
+    FROM public.points_transactions t
+    JOIN members m ON m.user_id = t.user_id
+    WHERE _period <> 'all' AND t.created_at >= m.window_start AND t.created_at < m.window_end
+      AND t.reason NOT IN ('opening_balance', 'redemption', 'redemption_refund')
+    GROUP BY t.user_id
+  ),
+  totals AS (
+    SELECT
+      m.user_id,
+      m.name,
+      m.gym_id,
+      m.gym_name,
+      m.created_at,
+      CASE
+        WHEN _period = 'all' THEN m.total_points
+        ELSE COALESCE(pt.points, 0)
+      END AS points,
+      COALESCE(v.visits, 0) AS visits
+    FROM members m
+    LEFT JOIN visit_totals v ON v.user_id = m.user_id
+    LEFT JOIN point_totals pt ON pt.user_id = m.user_id
+  )
+  SELECT
+    t.user_id,
+    t.name,
+    t.gym_id,
+    t.gym_name,
+    t.points,
+    t.visits,
+    ROW_NUMBER() OVER (ORDER BY t.points DESC, t.visits DESC, t.created_at, t.user_id) AS rank,
+    COUNT(*) OVER () AS member_count
+  FROM totals t
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gym_period_start(UUID, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.leaderboard_standings(UUID, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- The leaderboard now takes a period; replace the lifetime-only signature
+DROP FUNCTION IF EXISTS public.get_leaderboard(TEXT, INTEGER);
+
+-- Leaderboard for the caller's gym ('gym') or every gym ('all') over this week, this month or all time.
+-- Returns the top _limit members plus the caller's own row when they rank lower.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+  _scope TEXT DEFAULT 'gym',
+  _period TEXT DEFAULT 'all',
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  gym_id UUID,
+  gym_name TEXT,
+  points INTEGER,
+  visits INTEGER,
+  rank BIGINT,
+  member_count BIGINT,
+  is_current_user BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _caller uuid := auth.uid();
+  _caller_gym uuid := public.get_user_gym_id(auth.uid());
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _scope NOT IN ('gym', 'all') THEN
+    RAISE EXCEPTION 'Unknown leaderboard scope: %', _scope;
+  END IF;
+
+  IF _period NOT IN ('week', 'month', 'all') THEN
+    RAISE EXCEPTION 'Unknown leaderboard period: %', _period;
+  END IF;
+
+  IF _scope = 'gym' AND _caller_gym IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.user_id,
+    s.name,
+    s.gym_id,
+    s.gym_name,
+    s.points,
+    s.visits,
+    s.rank,
+    s.member_count,
+    s.user_id = _caller AS is_current_user
+  FROM public.leaderboard_standings(
+    CASE WHEN _scope = 'gym' THEN _caller_gym END,
+    _period,
+    now()
+  ) s
+  WHERE s.rank <= _limit OR s.user_id = _caller
+  ORDER BY s.rank;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_leaderboard(TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(TEXT, TEXT, INTEGER) TO authenticated;
+
+-- Top three members of each gym for every finished week and month
+CREATE TABLE public.leaderboard_winners (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gym_id UUID NOT NULL REFERENCES public.gyms(id) ON DELETE CASCADE,
+  period TEXT NOT NULL CHECK (period IN ('week', 'month')),
+  period_start DATE NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rank INTEGER NOT NULL,
+  points INTEGER NOT NULL,
+  visits INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (gym_id, period, period_start, rank)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.leaderboard_winners ENABLE ROW LEVEL SECURITY;
+
+-- Members can view the winners of their own gym
+CREATE POLICY "Members can view their gym leaderboard winners"
+ON public.leaderboard_winners
+FOR SELECT
+USING (gym_id = public.get_user_gym_id(auth.uid()));
+
+-- Owners can view the winners of their gym
+CREATE POLICY "Owners can view their gym leaderboard winners"
+ON public.leaderboard_winners
+FOR SELECT
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Archive the podium of each gym's previous week and month once they have ended
+CREATE OR REPLACE FUNCTION public.archive_leaderboard_winners()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _gym record;
+  _period text;
+  _previous date;
+  _inserted integer;
+  _archived integer := 0;
+BEGIN
+  FOR _gym IN SELECT id, timezone FROM public.gyms LOOP
+    FOREACH _period IN ARRAY ARRAY['week', 'month'] LOOP
+      _previous := CASE _period
+        WHEN 'week' THEN public.gym_period_start(_gym.id, _period, now()) - 7
+        ELSE (public.gym_period_start(_gym.id, _period, now()) - interval '1 month')::date
+      END;
+
+      INSERT INTO public.leaderboard_winners (gym_id, period, period_start, user_id, name, rank, points, visits)
+      SELECT _gym.id, _period, _previous, s.user_id, s.name, s.rank, s.points, s.visits
+      FROM public.leaderboard_standings(_gym.id, _period, _previous::timestamp AT TIME ZONE _gym.timezone) s
+      WHERE s.rank <= 3 AND s.points > 0
+      ON CONFLICT (gym_id, period, period_start, rank) DO NOTHING;
+
+      GET DIAGNOSTICS _inserted = ROW_COUNT;
+      _archived := _archived + _inserted;
+    END LOOP;
+  END LOOP;
+
+  RETURN _archived;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.archive_leaderboard_winners() FROM PUBLIC, anon, authenticated;
+
+-- Run hourly so every gym's boards are archived soon after they reset in its own timezone
+SELECT cron.schedule(
+  'archive-leaderboard-winners',
+  '10 * * * *',
+  $$SELECT public.archive_leaderboard_winners();$$
+);
@@ -0,0 +1,72 @@
+-- Create rewards catalog managed by gym owners
+CREATE TABLE public.rewards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gym_id UUID NOT NULL REFERENCES public.gyms(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  category TEXT NOT NULL,
+  icon TEXT NOT NULL DEFAULT '🎁',
+  image_url TEXT,
+  points_cost INTEGER NOT NULL CHECK (points_cost > 0),
+  stock INTEGER CHECK (stock >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX idx_rewards_gym_cost ON public.rewards (gym_id, points_cost);
+
+-- Enable RLS
+ALTER TABLE public.rewards ENABLE ROW LEVEL SECURITY;
+
+-- Owners can view their gym's rewards
+CREATE POLICY "Owners can view their gym rewards"
+ON public.rewards
+FOR SELECT
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Owners can insert rewards for their gym
+CREATE POLICY "Owners can insert rewards for their gym"
+ON public.rewards
+FOR INSERT
+WITH CHECK (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Owners can update their gym's rewards
+CREATE POLICY "Owners can update their gym rewards"
+ON public.rewards
+FOR UPDATE
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Owners can delete their gym's rewards
+CREATE POLICY "Owners can delete their gym rewards"
+ON public.rewards
+FOR DELETE
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Members can view active rewards for their gym within the availability window
+CREATE POLICY "Members can view active rewards for their gym"
+ON public.rewards
+FOR SELECT
+USING (
+  gym_id = get_user_gym_id(auth.uid())
+  AND is_active
+  AND (starts_at IS NULL OR starts_at <= now())
+  AND (ends_at IS NULL OR ends_at > now())
+);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_rewards_updated_at
+BEFORE UPDATE ON public.rewards
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,192 @@
+-- Rewards redeemed by members; each redemption issues a voucher shown to staff
+CREATE TABLE public.reward_redemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  gym_id UUID NOT NULL REFERENCES public.gyms(id) ON DELETE CASCADE,
+  reward_id UUID REFERENCES public.rewards(id) ON DELETE SET NULL,
+  reward_name TEXT NOT NULL,
+  points_cost INTEGER NOT NULL CHECK (points_cost > 0),
+  voucher_code TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'fulfilled', 'cancelled', 'refunded')),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reward_redemptions_user_created ON public.reward_redemptions (user_id, created_at DESC);
+CREATE INDEX idx_reward_redemptions_gym_status ON public.reward_redemptions (gym_id, status, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.reward_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own redemptions
+CREATE POLICY "Users can view their own redemptions"
+ON public.reward_redemptions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Owners can view redemptions at their gym
+CREATE POLICY "Owners can view their gym redemptions"
+ON public.reward_redemptions
+FOR SELECT
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- No INSERT/UPDATE/DELETE policies: redemptions change only through the functions below
+
+-- Trigger for updated_at
+CREATE TRIGGER update_reward_redemptions_updated_at
+BEFORE UPDATE ON public.reward_redemptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Short voucher code without easily confused characters (0/O, 1/I/L)
+CREATE OR REPLACE FUNCTION public.generate_voucher_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  _alphabet text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  _code text;
+BEGIN
+  LOOP
+    _code := '';
+    FOR _i IN 1..8 LOOP
+      _code := _code || substr(_alphabet, 1 + floor(random() * length(_alphabet))::int, 1);
+    END LOOP;
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.reward_redemptions WHERE voucher_code = _code);
+  END LOOP;
+  RETURN _code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_voucher_code() FROM PUBLIC, anon, authenticated;
+
+-- Atomically redeem a reward for the signed-in member: checks availability, stock and
+-- balance under row locks, takes one unit of stock, debits the points and issues a voucher
+CREATE OR REPLACE FUNCTION public.redeem_reward(_reward_id UUID)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _reward public.rewards;
+  _balance integer;
+  _redemption public.reward_redemptions;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _reward
+  FROM public.rewards
+  WHERE id = _reward_id
+  FOR UPDATE;
+
+  IF _reward.id IS NULL OR _reward.gym_id IS DISTINCT FROM public.get_user_gym_id(_user_id) THEN
+    RAISE EXCEPTION 'Reward not found';
+  END IF;
+
+  IF NOT _reward.is_active
+    OR (_reward.starts_at IS NOT NULL AND _reward.starts_at > now())
+    OR (_reward.ends_at IS NOT NULL AND _reward.ends_at <= now()) THEN
+    RAISE EXCEPTION 'This reward is not available right now';
+  END IF;
+
+  IF _reward.stock IS NOT NULL AND _reward.stock <= 0 THEN
+    RAISE EXCEPTION 'This reward is out of stock';
+  END IF;
+
+  SELECT total_points INTO _balance
+  FROM public.profiles
+  WHERE user_id = _user_id
+  FOR UPDATE;
+
+  IF COALESCE(_balance, 0) < _reward.points_cost THEN
+    RAISE EXCEPTION 'Not enough points to redeem this reward';
+  END IF;
+
+  IF _reward.stock IS NOT NULL THEN
+    UPDATE public.rewards SET stock = stock - 1 WHERE id = _reward.id;
+  END IF;
+
+  INSERT INTO public.reward_redemptions (user_id, gym_id, reward_id, reward_name, points_cost, voucher_code)
+  VALUES (_user_id, _reward.gym_id, _reward.id, _reward.name, _reward.points_cost, public.generate_voucher_code())
+  RETURNING * INTO _redemption;
+
+  PERFORM public.award_points(_user_id, -_reward.points_cost, 'redemption', 'reward_redemptions', _redemption.id);
+
+  RETURN jsonb_build_object(
+    'redemption_id', _redemption.id,
+    'voucher_code', _redemption.voucher_code,
+    'reward_name', _redemption.reward_name,
+    'points_cost', _redemption.points_cost,
+    'total_points', _balance - _reward.points_cost
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_reward(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_reward(UUID) TO authenticated;
+
+-- Owner action on a redemption at their gym:
+--   'fulfilled' hands the reward over (pending only);
+--   'cancelled' voids a pending voucher and puts the item back in stock, without returning points;
+--   'refunded' returns the points, restocking the item when it was never handed over
+CREATE OR REPLACE FUNCTION public.resolve_redemption(_redemption_id UUID, _status TEXT)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _redemption public.reward_redemptions;
+BEGIN
+  IF _status NOT IN ('fulfilled', 'cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Unknown redemption status: %', _status;
+  END IF;
+
+  SELECT * INTO _redemption
+  FROM public.reward_redemptions
+  WHERE id = _redemption_id
+  FOR UPDATE;
+
+  IF _redemption.id IS NULL
+    OR _redemption.gym_id NOT IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  IF NOT (
+    _redemption.status = 'pending'
+    OR (_redemption.status = 'fulfilled' AND _status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'A % redemption cannot be marked %', _redemption.status, _status;
+  END IF;
+
+  IF _redemption.status = 'pending' AND _status IN ('cancelled', 'refunded') THEN
+    UPDATE public.rewards
+    SET stock = stock + 1
+    WHERE id = _redemption.reward_id AND stock IS NOT NULL;
+  END IF;
+
+  IF _status = 'refunded' THEN
+    PERFORM public.award_points(_redemption.user_id, _redemption.points_cost, 'redemption_refund', 'reward_redemptions', _redemption.id);
+  END IF;
+
+  UPDATE public.reward_redemptions
+  SET status = _status, resolved_at = now(), resolved_by = auth.uid()
+  WHERE id = _redemption.id
+  RETURNING * INTO _redemption;
+
+  RETURN to_jsonb(_redemption);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_redemption(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_redemption(UUID, TEXT) TO authenticated;
@@ -0,0 +1,150 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Owners decide whether members may check in without scanning the front desk QR code
+ALTER TABLE public.gyms
+  ADD COLUMN allow_manual_check_in BOOLEAN NOT NULL DEFAULT false;
+
+-- Per-gym signing secret for kiosk QR codes; gyms is readable by everyone, so it lives apart
+CREATE TABLE public.gym_secrets (
+  gym_id UUID NOT NULL PRIMARY KEY REFERENCES public.gyms(id) ON DELETE CASCADE,
+  qr_secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.gym_secrets ENABLE ROW LEVEL SECURITY;
+
+-- No policies: secrets are only read by the functions below
+
+-- Signature of a gym's QR token for one 30-second window
+CREATE OR REPLACE FUNCTION public.sign_check_in_token(_gym_id UUID, _window BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT left(encode(extensions.hmac(_gym_id::text || '.' || _window::text, s.qr_secret, 'sha256'), 'hex'), 32)
+  FROM public.gym_secrets s
+  WHERE s.gym_id = _gym_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sign_check_in_token(UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- Current QR token for the owner's kiosk screen: "<gym_id>.<window>.<signature>", rotating every 30 seconds
+CREATE OR REPLACE FUNCTION public.get_check_in_qr_token(_gym_id UUID)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _window bigint := floor(extract(epoch FROM now()) / 30);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.gyms WHERE id = _gym_id AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the gym owner can display its check-in code';
+  END IF;
+
+  INSERT INTO public.gym_secrets (gym_id)
+  VALUES (_gym_id)
+  ON CONFLICT (gym_id) DO NOTHING;
+
+  RETURN jsonb_build_object(
+    'token', _gym_id::text || '.' || _window::text || '.' || public.sign_check_in_token(_gym_id, _window),
+    'expires_at', to_timestamp((_window + 1) * 30)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_check_in_qr_token(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_check_in_qr_token(UUID) TO authenticated;
+
+-- A token is valid for the member's own gym during its window and the one after it,
+-- so a code scanned just before it rotates still works
+CREATE OR REPLACE FUNCTION public.verify_check_in_token(_token TEXT, _gym_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parts text[] := string_to_array(COALESCE(_token, ''), '.');
+  _current bigint := floor(extract(epoch FROM now()) / 30);
+  _window bigint;
+BEGIN
+  IF array_length(_parts, 1) IS DISTINCT FROM 3 OR _parts[1] <> _gym_id::text OR _parts[2] !~ '^[0-9]+$' THEN
+    RETURN false;
+  END IF;
+
+  _window := _parts[2]::bigint;
+  IF _window NOT IN (_current, _current - 1) THEN
+    RETURN false;
+  END IF;
+
+  RETURN _parts[3] = public.sign_check_in_token(_gym_id, _window);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_check_in_token(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Check-ins now carry the scanned token; replace the single-argument signature
+DROP FUNCTION IF EXISTS public.record_check_in(TEXT);
+
+-- Record a verified check-in and its points through the ledger. 'qr' check-ins must present a
+-- fresh token for the member's gym; 'manual' check-ins are only accepted when the gym allows them.
+CREATE OR REPLACE FUNCTION public.record_check_in(_source TEXT DEFAULT 'qr', _token TEXT DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _gym public.gyms;
+  _points integer := 50;
+  _check_in public.check_ins;
+  _total_points integer;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _gym FROM public.gyms WHERE id = public.get_user_gym_id(_user_id);
+  IF _gym.id IS NULL THEN
+    RAISE EXCEPTION 'Join a gym before checking in';
+  END IF;
+
+  IF _source = 'qr' THEN
+    IF NOT public.verify_check_in_token(_token, _gym.id) THEN
+      RAISE EXCEPTION 'This QR code is expired or belongs to another gym. Scan the code at your front desk.';
+    END IF;
+  ELSIF _source = 'manual' THEN
+    IF NOT _gym.allow_manual_check_in THEN
+      RAISE EXCEPTION 'Scan the QR code at the front desk to check in';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown check-in source: %', _source;
+  END IF;
+
+  INSERT INTO public.check_ins (user_id, gym_id, source, points_awarded)
+  VALUES (_user_id, _gym.id, _source, _points)
+  RETURNING * INTO _check_in;
+
+  PERFORM public.award_points(_user_id, _points, 'check_in', 'check_ins', _check_in.id);
+
+  SELECT total_points INTO _total_points
+  FROM public.profiles
+  WHERE user_id = _user_id;
+
+  RETURN jsonb_build_object(
+    'check_in_id', _check_in.id,
+    'checked_in_at', _check_in.created_at,
+    'points_awarded', _points,
+    'total_points', _total_points
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_check_in(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_check_in(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,149 @@
+-- Gym location and check-in fence; the fence applies once both coordinates are set
+ALTER TABLE public.gyms
+  ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD COLUMN check_in_radius_m INTEGER NOT NULL DEFAULT 150 CHECK (check_in_radius_m BETWEEN 25 AND 5000);
+
+-- Check-in attempts the server refused, kept so owners can spot abuse or a misplaced fence
+CREATE TABLE public.check_in_rejections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  gym_id UUID NOT NULL REFERENCES public.gyms(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('invalid_token', 'manual_disabled', 'location_required', 'outside_geofence')),
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m DOUBLE PRECISION,
+  distance_m INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_check_in_rejections_gym_created ON public.check_in_rejections (gym_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.check_in_rejections ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own rejected check-ins
+CREATE POLICY "Users can view their own check-in rejections"
+ON public.check_in_rejections
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Owners can view rejected check-ins at their gym
+CREATE POLICY "Owners can view their gym check-in rejections"
+ON public.check_in_rejections
+FOR SELECT
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- No INSERT/UPDATE/DELETE policies: rejections are only logged by record_check_in
+
+-- Great-circle distance in meters (haversine)
+CREATE OR REPLACE FUNCTION public.distance_meters(_lat1 DOUBLE PRECISION, _lng1 DOUBLE PRECISION, _lat2 DOUBLE PRECISION, _lng2 DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2)
+    + cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  ))
+$$;
+
+-- Check-ins now carry the member's position; replace the previous signature
+DROP FUNCTION IF EXISTS public.record_check_in(TEXT, TEXT);
+
+-- Record a verified check-in and its points through the ledger, or log why it was refused.
+-- Refusals are returned as {status: 'rejected', reason, message} instead of raised, so the
+-- rejection log survives. Reported GPS accuracy is credited up to 100 m against the fence.
+CREATE OR REPLACE FUNCTION public.record_check_in(
+  _source TEXT DEFAULT 'qr',
+  _token TEXT DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _gym public.gyms;
+  _points integer := 50;
+  _reason text;
+  _message text;
+  _distance integer;
+  _check_in public.check_ins;
+  _total_points integer;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _gym FROM public.gyms WHERE id = public.get_user_gym_id(_user_id);
+  IF _gym.id IS NULL THEN
+    RAISE EXCEPTION 'Join a gym before checking in';
+  END IF;
+
+  IF _source NOT IN ('qr', 'manual') THEN
+    RAISE EXCEPTION 'Unknown check-in source: %', _source;
+  END IF;
+
+  IF _latitude IS NOT NULL AND _longitude IS NOT NULL AND _gym.latitude IS NOT NULL AND _gym.longitude IS NOT NULL THEN
+    _distance := round(public.distance_meters(_latitude, _longitude, _gym.latitude, _gym.longitude));
+  END IF;
+
+  IF _source = 'qr' AND NOT public.verify_check_in_token(_token, _gym.id) THEN
+    _reason := 'invalid_token';
+    _message := 'This QR code is expired or belongs to another gym. Scan the code at your front desk.';
+  ELSIF _source = 'manual' AND NOT _gym.allow_manual_check_in THEN
+    _reason := 'manual_disabled';
+    _message := 'Scan the QR code at the front desk to check in';
+  ELSIF _gym.latitude IS NOT NULL AND _gym.longitude IS NOT NULL THEN
+    IF _distance IS NULL THEN
+      _reason := 'location_required';
+      _message := 'Allow location access so we can confirm you are at the gym';
+    ELSIF _distance - LEAST(COALESCE(_accuracy, 0), 100) > _gym.check_in_radius_m THEN
+      _reason := 'outside_geofence';
+      _message := format('You are about %s m from %s. Check in when you arrive.', _distance, _gym.name);
+    END IF;
+  END IF;
+
+  IF _reason IS NOT NULL THEN
+    INSERT INTO public.check_in_rejections (user_id, gym_id, source, reason, latitude, longitude, accuracy_m, distance_m)
+    VALUES (_user_id, _gym.id, _source, _reason, _latitude, _longitude, _accuracy, _distance);
+
+    RETURN jsonb_build_object(
+      'status', 'rejected',
+      'reason', _reason,
+      'message', _message,
+      'distance_m', _distance
+    );
+  END IF;
+
+  INSERT INTO public.check_ins (user_id, gym_id, source, points_awarded)
+  VALUES (_user_id, _gym.id, _source, _points)
+  RETURNING * INTO _check_in;
+
+  PERFORM public.award_points(_user_id, _points, 'check_in', 'check_ins', _check_in.id);
+
+  SELECT total_points INTO _total_points
+  FROM public.profiles
+  WHERE user_id = _user_id;
+
+  RETURN jsonb_build_object(
+    'status', 'accepted',
+    'check_in_id', _check_in.id,
+    'checked_in_at', _check_in.created_at,
+    'points_awarded', _points,
+    'total_points', _total_points
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_check_in(TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_check_in(TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
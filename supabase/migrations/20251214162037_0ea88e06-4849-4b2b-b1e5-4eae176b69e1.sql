@@ -0,0 +1,172 @@
+-- Per-gym anti-abuse rules enforced server-side
+ALTER TABLE public.gyms
+  ADD COLUMN check_in_cooldown_minutes INTEGER NOT NULL DEFAULT 240 CHECK (check_in_cooldown_minutes BETWEEN 0 AND 1440),
+  -- Point-earning check-ins per gym-local day; later visits are still recorded, for 0 points
+  ADD COLUMN max_daily_check_ins INTEGER NOT NULL DEFAULT 1 CHECK (max_daily_check_ins BETWEEN 1 AND 10),
+  ADD COLUMN max_workout_minutes INTEGER NOT NULL DEFAULT 180 CHECK (max_workout_minutes BETWEEN 10 AND 600);
+
+-- Cooldown refusals are logged alongside the other rejections
+ALTER TABLE public.check_in_rejections DROP CONSTRAINT check_in_rejections_reason_check;
+ALTER TABLE public.check_in_rejections ADD CONSTRAINT check_in_rejections_reason_check
+  CHECK (reason IN ('invalid_token', 'manual_disabled', 'location_required', 'outside_geofence', 'cooldown'));
+
+-- Record a verified check-in and its points through the ledger, or log why it was refused.
+-- Refusals are returned as {status: 'rejected', reason, message} instead of raised, so the
+-- rejection log survives. Reported GPS accuracy is credited up to 100 m against the fence.
+-- A check-in must also respect the gym's cooldown. Once the daily limit of point-earning
+-- check-ins (in the gym timezone) is used up, further visits are recorded without points.
+CREATE OR REPLACE FUNCTION public.record_check_in(
+  _source TEXT DEFAULT 'qr',
+  _token TEXT DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _gym public.gyms;
+  _points integer := 50;
+  _reason text;
+  _message text;
+  _distance integer;
+  _last_check_in timestamptz;
+  _retry_after timestamptz;
+  _earning_today integer;
+  _check_in public.check_ins;
+  _total_points integer;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _gym FROM public.gyms WHERE id = public.get_user_gym_id(_user_id);
+  IF _gym.id IS NULL THEN
+    RAISE EXCEPTION 'Join a gym before checking in';
+  END IF;
+
+  IF _source NOT IN ('qr', 'manual') THEN
+    RAISE EXCEPTION 'Unknown check-in source: %', _source;
+  END IF;
+
+  -- Serialize concurrent check-ins by the same member so the limits cannot be raced
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  IF _latitude IS NOT NULL AND _longitude IS NOT NULL AND _gym.latitude IS NOT NULL AND _gym.longitude IS NOT NULL THEN
+    _distance := round(public.distance_meters(_latitude, _longitude, _gym.latitude, _gym.longitude));
+  END IF;
+
+  SELECT MAX(created_at) INTO _last_check_in
+  FROM public.check_ins
+  WHERE user_id = _user_id;
+
+  SELECT COUNT(*)::int INTO _earning_today
+  FROM public.check_ins
+  WHERE user_id = _user_id
+    AND points_awarded > 0
+    AND created_at >= (date_trunc('day', now() AT TIME ZONE _gym.timezone) AT TIME ZONE _gym.timezone);
+
+  IF _source = 'qr' AND NOT public.verify_check_in_token(_token, _gym.id) THEN
+    _reason := 'invalid_token';
+    _message := 'This QR code is expired or belongs to another gym. Scan the code at your front desk.';
+  ELSIF _source = 'manual' AND NOT _gym.allow_manual_check_in THEN
+    _reason := 'manual_disabled';
+    _message := 'Scan the QR code at the front desk to check in';
+  ELSIF _gym.latitude IS NOT NULL AND _gym.longitude IS NOT NULL AND _distance IS NULL THEN
+    _reason := 'location_required';
+    _message := 'Allow location access so we can confirm you are at the gym';
+  ELSIF _distance - LEAST(COALESCE(_accuracy, 0), 100) > _gym.check_in_radius_m THEN
+    _reason := 'outside_geofence';
+    _message := format('You are about %s m from %s. Check in when you arrive.', _distance, _gym.name);
+  ELSIF _last_check_in > now() - make_interval(mins => _gym.check_in_cooldown_minutes) THEN
+    _reason := 'cooldown';
+    _retry_after := _last_check_in + make_interval(mins => _gym.check_in_cooldown_minutes);
+    _message := 'You checked in recently. Try again later.';
+  END IF;
+
+  IF _reason IS NOT NULL THEN
+    INSERT INTO public.check_in_rejections (user_id, gym_id, source, reason, latitude, longitude, accuracy_m, distance_m)
+    VALUES (_user_id, _gym.id, _source, _reason, _latitude, _longitude, _accuracy, _distance);
+
+    RETURN jsonb_build_object(
+      'status', 'rejected',
+      'reason', _reason,
+      'message', _message,
+      'distance_m', _distance,
+      'retry_after', _retry_after
+    );
+  END IF;
+
+  -- Visits past the gym's daily limit are recorded but earn nothing
+  IF _earning_today >= _gym.max_daily_check_ins THEN
+    _points := 0;
+  END IF;
+
+  INSERT INTO public.check_ins (user_id, gym_id, source, points_awarded)
+  VALUES (_user_id, _gym.id, _source, _points)
+  RETURNING * INTO _check_in;
+
+  IF _points > 0 THEN
+    PERFORM public.award_points(_user_id, _points, 'check_in', 'check_ins', _check_in.id);
+  END IF;
+
+  SELECT total_points INTO _total_points
+  FROM public.profiles
+  WHERE user_id = _user_id;
+
+  RETURN jsonb_build_object(
+    'status', 'accepted',
+    'check_in_id', _check_in.id,
+    'checked_in_at', _check_in.created_at,
+    'points_awarded', _points,
+    'total_points', _total_points,
+    'point_check_ins_remaining_today', GREATEST(_gym.max_daily_check_ins - _earning_today - CASE WHEN _points > 0 THEN 1 ELSE 0 END, 0)
+  );
+END;
+$$;
+
+-- Workouts must fit the gym's maximum session length and may not overlap an earlier session.
+-- Violations are raised with a machine-readable HINT the client maps to a typed error.
+-- Workouts are timestamped by the server, so back- or future-dating can't dodge the rules.
+CREATE OR REPLACE FUNCTION public.enforce_workout_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _gym public.gyms;
+BEGIN
+  NEW.created_at := now();
+
+  SELECT * INTO _gym FROM public.gyms WHERE id = public.get_user_gym_id(NEW.user_id);
+
+  IF _gym.id IS NOT NULL AND NEW.total_duration_minutes > _gym.max_workout_minutes THEN
+    RAISE EXCEPTION 'Workouts at % can be at most % minutes long', _gym.name, _gym.max_workout_minutes
+      USING HINT = 'workout_too_long';
+  END IF;
+
+  PERFORM 1 FROM public.profiles WHERE user_id = NEW.user_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.workouts w
+    WHERE w.user_id = NEW.user_id
+      AND w.created_at > NEW.created_at - make_interval(mins => GREATEST(NEW.total_duration_minutes, 1))
+  ) THEN
+    RAISE EXCEPTION 'This workout overlaps one you already logged'
+      USING HINT = 'workout_overlap';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_workout_rules
+BEFORE INSERT ON public.workouts
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_workout_rules();
@@ -0,0 +1,621 @@
+-- Members an owner has trusted to run the front desk kiosk
+CREATE TABLE public.gym_staff (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gym_id UUID NOT NULL REFERENCES public.gyms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (gym_id, user_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.gym_staff ENABLE ROW LEVEL SECURITY;
+
+-- Staff can see which gyms they work at
+CREATE POLICY "Staff can view their own staff memberships"
+ON public.gym_staff
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Owners can view their gym staff
+CREATE POLICY "Owners can view their gym staff"
+ON public.gym_staff
+FOR SELECT
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Owners can add staff from their own members
+CREATE POLICY "Owners can add their gym staff"
+ON public.gym_staff
+FOR INSERT
+WITH CHECK (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+  AND user_id IN (SELECT p.user_id FROM public.profiles p WHERE p.gym_id = gym_staff.gym_id)
+);
+
+-- Owners can remove their gym staff
+CREATE POLICY "Owners can remove their gym staff"
+ON public.gym_staff
+FOR DELETE
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- The gym owner and its staff may operate the kiosk; staff only while they are still members
+CREATE OR REPLACE FUNCTION public.can_operate_kiosk(_user_id UUID, _gym_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.gyms WHERE id = _gym_id AND owner_id = _user_id)
+    OR EXISTS (
+      SELECT 1
+      FROM public.gym_staff s
+      JOIN public.profiles p ON p.user_id = s.user_id AND p.gym_id = s.gym_id
+      WHERE s.gym_id = _gym_id AND s.user_id = _user_id
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_operate_kiosk(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Personal front desk PINs. The kiosk tablet stays signed in, so the desk panel is unlocked
+-- by whoever is at reception entering their own PIN.
+CREATE TABLE public.kiosk_operator_pins (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gym_id UUID NOT NULL REFERENCES public.gyms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (gym_id, user_id)
+);
+
+-- Unlocked desk panels. A session ends when it is locked or after two idle minutes.
+CREATE TABLE public.kiosk_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gym_id UUID NOT NULL REFERENCES public.gyms(id) ON DELETE CASCADE,
+  operator_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Account signed in on the kiosk device; the session only works there
+  device_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_active_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.kiosk_operator_pins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.kiosk_sessions ENABLE ROW LEVEL SECURITY;
+
+-- No policies: PINs and sessions are only used through the functions below
+
+CREATE TRIGGER update_kiosk_operator_pins_updated_at
+BEFORE UPDATE ON public.kiosk_operator_pins
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Wrong PINs lock the desk of that gym for a while
+ALTER TABLE public.gym_secrets
+  ADD COLUMN kiosk_failed_unlocks INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN kiosk_locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Owners and staff set their own 4-8 digit desk PIN
+CREATE OR REPLACE FUNCTION public.set_kiosk_pin(_gym_id UUID, _pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_operate_kiosk(auth.uid(), _gym_id) THEN
+    RAISE EXCEPTION 'Only the gym owner or staff can set a front desk PIN';
+  END IF;
+
+  IF _pin IS NULL OR _pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'The PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO public.kiosk_operator_pins (gym_id, user_id, pin_hash)
+  VALUES (_gym_id, auth.uid(), extensions.crypt(_pin, extensions.gen_salt('bf')))
+  ON CONFLICT (gym_id, user_id) DO UPDATE SET pin_hash = EXCLUDED.pin_hash;
+
+  -- A new PIN ends the operator's open desk sessions
+  DELETE FROM public.kiosk_sessions WHERE gym_id = _gym_id AND operator_id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_kiosk_pin(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_kiosk_pin(UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.has_kiosk_pin(_gym_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.kiosk_operator_pins WHERE gym_id = _gym_id AND user_id = auth.uid())
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_kiosk_pin(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_kiosk_pin(UUID) TO authenticated;
+
+-- Opens the desk panel on the signed-in kiosk device for the owner or staff member whose PIN
+-- matches. Five wrong PINs in a row lock the gym's desk for five minutes. Failures are
+-- returned rather than raised so the failure count is kept.
+CREATE OR REPLACE FUNCTION public.unlock_kiosk_desk(_gym_id UUID, _pin TEXT)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _secrets public.gym_secrets;
+  _operator_id uuid;
+  _session public.kiosk_sessions;
+BEGIN
+  IF NOT public.can_operate_kiosk(auth.uid(), _gym_id) THEN
+    RAISE EXCEPTION 'Only the gym owner or staff can open the kiosk';
+  END IF;
+
+  INSERT INTO public.gym_secrets (gym_id)
+  VALUES (_gym_id)
+  ON CONFLICT (gym_id) DO NOTHING;
+
+  SELECT * INTO _secrets FROM public.gym_secrets WHERE gym_id = _gym_id FOR UPDATE;
+
+  IF _secrets.kiosk_locked_until > now() THEN
+    RETURN jsonb_build_object('status', 'locked', 'retry_after', _secrets.kiosk_locked_until);
+  END IF;
+
+  SELECT pins.user_id INTO _operator_id
+  FROM public.kiosk_operator_pins pins
+  WHERE pins.gym_id = _gym_id
+    AND pins.pin_hash = extensions.crypt(COALESCE(_pin, ''), pins.pin_hash)
+    AND public.can_operate_kiosk(pins.user_id, _gym_id)
+  LIMIT 1;
+
+  IF _operator_id IS NULL THEN
+    UPDATE public.gym_secrets
+    SET kiosk_failed_unlocks = CASE WHEN kiosk_failed_unlocks + 1 >= 5 THEN 0 ELSE kiosk_failed_unlocks + 1 END,
+      kiosk_locked_until = CASE WHEN kiosk_failed_unlocks + 1 >= 5 THEN now() + interval '5 minutes' END
+    WHERE gym_id = _gym_id
+    RETURNING * INTO _secrets;
+
+    IF _secrets.kiosk_locked_until IS NOT NULL THEN
+      RETURN jsonb_build_object('status', 'locked', 'retry_after', _secrets.kiosk_locked_until);
+    END IF;
+    RETURN jsonb_build_object('status', 'invalid_pin');
+  END IF;
+
+  UPDATE public.gym_secrets
+  SET kiosk_failed_unlocks = 0, kiosk_locked_until = NULL
+  WHERE gym_id = _gym_id;
+
+  DELETE FROM public.kiosk_sessions WHERE last_active_at < now() - interval '2 minutes';
+
+  INSERT INTO public.kiosk_sessions (gym_id, operator_id, device_user_id)
+  VALUES (_gym_id, _operator_id, auth.uid())
+  RETURNING * INTO _session;
+
+  RETURN jsonb_build_object(
+    'status', 'unlocked',
+    'session_id', _session.id,
+    'operator_name', (SELECT COALESCE(NULLIF(name, ''), 'Staff') FROM public.profiles WHERE user_id = _operator_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unlock_kiosk_desk(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.unlock_kiosk_desk(UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.lock_kiosk_desk(_session_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.kiosk_sessions WHERE id = _session_id AND device_user_id = auth.uid()
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_kiosk_desk(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.lock_kiosk_desk(UUID) TO authenticated;
+
+-- Operator of an open desk session on this device, keeping it alive. Raises when the session
+-- is locked, idle or its operator no longer works at the gym.
+CREATE OR REPLACE FUNCTION public.use_kiosk_session(_gym_id UUID, _session_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _operator_id uuid;
+BEGIN
+  UPDATE public.kiosk_sessions
+  SET last_active_at = now()
+  WHERE id = _session_id
+    AND gym_id = _gym_id
+    AND device_user_id = auth.uid()
+    AND last_active_at > now() - interval '2 minutes'
+    AND public.can_operate_kiosk(operator_id, _gym_id)
+    AND public.can_operate_kiosk(device_user_id, _gym_id)
+  RETURNING operator_id INTO _operator_id;
+
+  IF _operator_id IS NULL THEN
+    RAISE EXCEPTION 'The front desk is locked. Unlock it with a staff PIN.'
+      USING HINT = 'kiosk_locked';
+  END IF;
+  RETURN _operator_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.use_kiosk_session(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Staff can display the check-in code too
+CREATE OR REPLACE FUNCTION public.get_check_in_qr_token(_gym_id UUID)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _window bigint := floor(extract(epoch FROM now()) / 30);
+BEGIN
+  IF NOT public.can_operate_kiosk(auth.uid(), _gym_id) THEN
+    RAISE EXCEPTION 'Only the gym owner or staff can display its check-in code';
+  END IF;
+
+  INSERT INTO public.gym_secrets (gym_id)
+  VALUES (_gym_id)
+  ON CONFLICT (gym_id) DO NOTHING;
+
+  RETURN jsonb_build_object(
+    'token', _gym_id::text || '.' || _window::text || '.' || public.sign_check_in_token(_gym_id, _window),
+    'expires_at', to_timestamp((_window + 1) * 30)
+  );
+END;
+$$;
+
+-- Shared check-in path for members and the front desk. 'kiosk' check-ins are vouched for by
+-- staff, so they skip the QR, manual and location checks but still respect the cooldown and
+-- earn nothing past the daily limit. Refusals are logged and returned as
+-- {status: 'rejected', reason, message}.
+CREATE OR REPLACE FUNCTION public.perform_check_in(
+  _user_id UUID,
+  _source TEXT,
+  _token TEXT DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _gym public.gyms;
+  _points integer := 50;
+  _reason text;
+  _message text;
+  _distance integer;
+  _last_check_in timestamptz;
+  _retry_after timestamptz;
+  _earning_today integer;
+  _check_in public.check_ins;
+  _total_points integer;
+BEGIN
+  SELECT * INTO _gym FROM public.gyms WHERE id = public.get_user_gym_id(_user_id);
+  IF _gym.id IS NULL THEN
+    RAISE EXCEPTION 'Join a gym before checking in';
+  END IF;
+
+  IF _source NOT IN ('qr', 'manual', 'kiosk') THEN
+    RAISE EXCEPTION 'Unknown check-in source: %', _source;
+  END IF;
+
+  -- Serialize concurrent check-ins by the same member so the limits cannot be raced
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  IF _latitude IS NOT NULL AND _longitude IS NOT NULL AND _gym.latitude IS NOT NULL AND _gym.longitude IS NOT NULL THEN
+    _distance := round(public.distance_meters(_latitude, _longitude, _gym.latitude, _gym.longitude));
+  END IF;
+
+  SELECT MAX(created_at) INTO _last_check_in
+  FROM public.check_ins
+  WHERE user_id = _user_id;
+
+  SELECT COUNT(*)::int INTO _earning_today
+  FROM public.check_ins
+  WHERE user_id = _user_id
+    AND points_awarded > 0
+    AND created_at >= (date_trunc('day', now() AT TIME ZONE _gym.timezone) AT TIME ZONE _gym.timezone);
+
+  IF _source = 'qr' AND NOT public.verify_check_in_token(_token, _gym.id) THEN
+    _reason := 'invalid_token';
+    _message := 'This QR code is expired or belongs to another gym. Scan the code at your front desk.';
+  ELSIF _source = 'manual' AND NOT _gym.allow_manual_check_in THEN
+    _reason := 'manual_disabled';
+    _message := 'Scan the QR code at the front desk to check in';
+  ELSIF _source <> 'kiosk' AND _gym.latitude IS NOT NULL AND _gym.longitude IS NOT NULL AND _distance IS NULL THEN
+    _reason := 'location_required';
+    _message := 'Allow location access so we can confirm you are at the gym';
+  ELSIF _source <> 'kiosk' AND _distance - LEAST(COALESCE(_accuracy, 0), 100) > _gym.check_in_radius_m THEN
+    _reason := 'outside_geofence';
+    _message := format('You are about %s m from %s. Check in when you arrive.', _distance, _gym.name);
+  ELSIF _last_check_in > now() - make_interval(mins => _gym.check_in_cooldown_minutes) THEN
+    _reason := 'cooldown';
+    _retry_after := _last_check_in + make_interval(mins => _gym.check_in_cooldown_minutes);
+    _message := 'You checked in recently. Try again later.';
+  END IF;
+
+  IF _reason IS NOT NULL THEN
+    INSERT INTO public.check_in_rejections (user_id, gym_id, source, reason, latitude, longitude, accuracy_m, distance_m)
+    VALUES (_user_id, _gym.id, _source, _reason, _latitude, _longitude, _accuracy, _distance);
+
+    RETURN jsonb_build_object(
+      'status', 'rejected',
+      'reason', _reason,
+      'message', _message,
+      'distance_m', _distance,
+      'retry_after', _retry_after
+    );
+  END IF;
+
+  -- Visits past the gym's daily limit are recorded but earn nothing
+  IF _earning_today >= _gym.max_daily_check_ins THEN
+    _points := 0;
+  END IF;
+
+  INSERT INTO public.check_ins (user_id, gym_id, source, points_awarded)
+  VALUES (_user_id, _gym.id, _source, _points)
+  RETURNING * INTO _check_in;
+
+  IF _points > 0 THEN
+    PERFORM public.award_points(_user_id, _points, 'check_in', 'check_ins', _check_in.id);
+  END IF;
+
+  SELECT total_points INTO _total_points
+  FROM public.profiles
+  WHERE user_id = _user_id;
+
+  RETURN jsonb_build_object(
+    'status', 'accepted',
+    'check_in_id', _check_in.id,
+    'checked_in_at', _check_in.created_at,
+    'points_awarded', _points,
+    'total_points', _total_points,
+    'point_check_ins_remaining_today', GREATEST(_gym.max_daily_check_ins - _earning_today - CASE WHEN _points > 0 THEN 1 ELSE 0 END, 0)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.perform_check_in(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+
+-- Members check themselves in by scanning the kiosk code, or manually when the gym allows it
+CREATE OR REPLACE FUNCTION public.record_check_in(
+  _source TEXT DEFAULT 'qr',
+  _token TEXT DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _source NOT IN ('qr', 'manual') THEN
+    RAISE EXCEPTION 'Unknown check-in source: %', _source;
+  END IF;
+
+  RETURN public.perform_check_in(auth.uid(), _source, _token, _latitude, _longitude, _accuracy);
+END;
+$$;
+
+-- Daily periods for the front desk board
+CREATE OR REPLACE FUNCTION public.gym_period_start(_gym_id UUID, _period TEXT, _at TIMESTAMP WITH TIME ZONE)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _period
+    WHEN 'day' THEN (_at AT TIME ZONE g.timezone)::date
+    WHEN 'week' THEN public.gym_week_start(g.id, _at)
+    WHEN 'month' THEN date_trunc('month', _at AT TIME ZONE g.timezone)::date
+  END
+  FROM public.gyms g
+  WHERE g.id = _gym_id
+$$;
+
+-- Same standings as before, with a 'day' window alongside week and month
+CREATE OR REPLACE FUNCTION public.leaderboard_standings(_gym_id UUID, _period TEXT, _at TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  gym_id UUID,
+  gym_name TEXT,
+  points INTEGER,
+  visits INTEGER,
+  rank BIGINT,
+  member_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH members AS (
+    SELECT
+      p.user_id,
+      p.name,
+      p.gym_id,
+      g.name AS gym_name,
+      p.total_points,
+      p.created_at,
+      ps.local_start::timestamp AT TIME ZONE g.timezone AS window_start,
+      (ps.local_start + CASE _period
+          WHEN 'day' THEN interval '1 day'
+          WHEN 'week' THEN interval '7 days'
+          ELSE interval '1 month'
+        END)
+        AT TIME ZONE g.timezone AS window_end
+    FROM public.profiles p
+    JOIN public.gyms g ON g.id = p.gym_id
+    CROSS JOIN LATERAL (SELECT public.gym_period_start(g.id, _period, _at) AS local_start) ps
+    WHERE _gym_id IS NULL OR p.gym_id = _gym_id
+  ),
+  visit_totals AS (
+    SELECT c.user_id, COUNT(*)::int AS visits
+    FROM public.check_ins c
+    JOIN members m ON m.user_id = c.user_id
+    WHERE _period = 'all' OR (c.created_at >= m.window_start AND c.created_at < m.window_end)
+    GROUP BY c.user_id
+  ),
+  -- Points credited through the ledger, so only what the server priced counts. Carried-over
+  -- balances and reward spending are not earnings.
+  point_totals AS (
+    SELECT t.user_id, COALESCE(SUM(t.delta), 0)::int AS points
+    FROM public.points_transactions t
+    JOIN members m ON m.user_id = t.user_id
+    WHERE _period <> 'all' AND t.created_at >= m.window_start AND t.created_at < m.window_end
+      AND t.reason NOT IN ('opening_balance', 'redemption', 'redemption_refund')
+    GROUP BY t.user_id
+  ),
+  totals AS (
+    SELECT
+      m.user_id,
+      m.name,
+      m.gym_id,
+      m.gym_name,
+      m.created_at,
+      CASE
+        WHEN _period = 'all' THEN m.total_points
+        ELSE COALESCE(pt.points, 0)
+      END AS points,
+      COALESCE(v.visits, 0) AS visits
+    FROM members m
+    LEFT JOIN visit_totals v ON v.user_id = m.user_id
+    LEFT JOIN point_totals pt ON pt.user_id = m.user_id
+  )
+  SELECT
+    t.user_id,
+    t.name,
+    t.gym_id,
+    t.gym_name,
+    t.points,
+    t.visits,
+    ROW_NUMBER() OVER (ORDER BY t.points DESC, t.visits DESC, t.created_at, t.user_id) AS rank,
+    COUNT(*) OVER () AS member_count
+  FROM totals t
+$$;
+
+-- Today's top members for the kiosk idle screen. Only names and scores leave the database.
+CREATE OR REPLACE FUNCTION public.get_kiosk_leaders(_gym_id UUID, _limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  name TEXT,
+  points INTEGER,
+  visits INTEGER,
+  rank BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_operate_kiosk(auth.uid(), _gym_id) THEN
+    RAISE EXCEPTION 'Only the gym owner or staff can open the kiosk';
+  END IF;
+
+  RETURN QUERY
+  SELECT COALESCE(NULLIF(s.name, ''), 'Member'), s.points, s.visits, s.rank
+  FROM public.leaderboard_standings(_gym_id, 'day', now()) s
+  WHERE s.points > 0
+  ORDER BY s.rank
+  LIMIT LEAST(GREATEST(_limit, 1), 20);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_kiosk_leaders(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_kiosk_leaders(UUID, INTEGER) TO authenticated;
+
+-- Name search for the front desk. Emails are never returned or matched, so typing part of an
+-- address on a shared screen reveals nothing.
+CREATE OR REPLACE FUNCTION public.kiosk_search_members(_gym_id UUID, _session_id UUID, _query TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  checked_in_today BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _day_start timestamptz;
+BEGIN
+  PERFORM public.use_kiosk_session(_gym_id, _session_id);
+
+  IF length(trim(COALESCE(_query, ''))) < 2 THEN
+    RETURN;
+  END IF;
+
+  SELECT date_trunc('day', now() AT TIME ZONE g.timezone) AT TIME ZONE g.timezone INTO _day_start
+  FROM public.gyms g
+  WHERE g.id = _gym_id;
+
+  RETURN QUERY
+  SELECT
+    p.user_id,
+    p.name,
+    EXISTS (
+      SELECT 1 FROM public.check_ins c
+      WHERE c.user_id = p.user_id AND c.created_at >= _day_start
+    )
+  FROM public.profiles p
+  WHERE p.gym_id = _gym_id
+    AND p.name ILIKE '%' || replace(replace(replace(trim(_query), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  ORDER BY p.name
+  LIMIT 10;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.kiosk_search_members(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.kiosk_search_members(UUID, UUID, TEXT) TO authenticated;
+
+-- Front desk check-in for a member of this gym, recorded with source 'kiosk'. Needs a desk
+-- session unlocked with a staff PIN.
+CREATE OR REPLACE FUNCTION public.kiosk_check_in(_gym_id UUID, _session_id UUID, _user_id UUID)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _name text;
+BEGIN
+  PERFORM public.use_kiosk_session(_gym_id, _session_id);
+
+  SELECT COALESCE(NULLIF(name, ''), 'Member') INTO _name
+  FROM public.profiles
+  WHERE user_id = _user_id AND gym_id = _gym_id;
+
+  IF _name IS NULL THEN
+    RAISE EXCEPTION 'This person is not a member of this gym';
+  END IF;
+
+  RETURN public.perform_check_in(_user_id, 'kiosk') || jsonb_build_object('name', _name);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.kiosk_check_in(UUID, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.kiosk_check_in(UUID, UUID, UUID) TO authenticated;
@@ -0,0 +1,91 @@
+-- Saved routines. Personal templates have no gym; gym-wide templates are published by the
+-- gym owner and shown to every member of that gym.
+CREATE TABLE public.workout_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  gym_id UUID REFERENCES public.gyms(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 80),
+  workout_type TEXT NOT NULL,
+  exercises JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(exercises) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_workout_templates_user ON public.workout_templates (user_id) WHERE gym_id IS NULL;
+CREATE INDEX idx_workout_templates_gym ON public.workout_templates (gym_id) WHERE gym_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.workout_templates ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own personal templates
+CREATE POLICY "Users can view their own workout templates"
+ON public.workout_templates
+FOR SELECT
+USING (auth.uid() = user_id AND gym_id IS NULL);
+
+-- Users can create their own personal templates
+CREATE POLICY "Users can create their own workout templates"
+ON public.workout_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND gym_id IS NULL);
+
+-- Users can update their own personal templates
+CREATE POLICY "Users can update their own workout templates"
+ON public.workout_templates
+FOR UPDATE
+USING (auth.uid() = user_id AND gym_id IS NULL)
+WITH CHECK (auth.uid() = user_id AND gym_id IS NULL);
+
+-- Users can delete their own personal templates
+CREATE POLICY "Users can delete their own workout templates"
+ON public.workout_templates
+FOR DELETE
+USING (auth.uid() = user_id AND gym_id IS NULL);
+
+-- Members can view their gym's templates
+CREATE POLICY "Members can view their gym workout templates"
+ON public.workout_templates
+FOR SELECT
+USING (gym_id = get_user_gym_id(auth.uid()));
+
+-- Owners can view their gym templates
+CREATE POLICY "Owners can view their gym workout templates"
+ON public.workout_templates
+FOR SELECT
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Owners can publish templates for their gym
+CREATE POLICY "Owners can create their gym workout templates"
+ON public.workout_templates
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Owners can update their gym templates
+CREATE POLICY "Owners can update their gym workout templates"
+ON public.workout_templates
+FOR UPDATE
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+)
+WITH CHECK (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Owners can delete their gym templates
+CREATE POLICY "Owners can delete their gym workout templates"
+ON public.workout_templates
+FOR DELETE
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_workout_templates_updated_at
+BEFORE UPDATE ON public.workout_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,14 @@
+-- workouts.exercises is versioned: version 1 rows are a bare array of aggregate exercises,
+-- version 2 rows are { "version": 2, "exercises": [...] } with one entry per logged set
+ALTER TABLE public.workouts
+  ADD CONSTRAINT workouts_exercises_version_check CHECK (
+    jsonb_typeof(exercises) = 'array'
+    OR (
+      jsonb_typeof(exercises) = 'object'
+      AND exercises->>'version' = '2'
+      AND jsonb_typeof(exercises->'exercises') = 'array'
+    )
+  );
+
+COMMENT ON COLUMN public.workouts.exercises IS
+  'Version 1: [{name, sets, reps, duration}]. Version 2: {version: 2, exercises: [{name, duration} | {name, sets: [{reps, weight, unit, rpe, warmup, completed}]}]}';
@@ -0,0 +1,52 @@
+-- Best efforts per member and exercise, detected when a workout is saved. Weights are stored
+-- in kg so sets logged in different units compare; display_unit is the unit the set was logged in.
+-- most_reps records are kept per weight, every other type uses weight_kg = 0 as its key.
+CREATE TABLE public.personal_records (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  exercise_key TEXT NOT NULL,
+  exercise_name TEXT NOT NULL,
+  record_type TEXT NOT NULL CHECK (record_type IN ('estimated_1rm', 'heaviest_set', 'most_reps', 'longest_duration')),
+  value NUMERIC NOT NULL CHECK (value > 0),
+  weight_kg NUMERIC NOT NULL DEFAULT 0 CHECK (weight_kg >= 0),
+  reps INTEGER,
+  display_unit TEXT CHECK (display_unit IN ('kg', 'lb')),
+  workout_id UUID REFERENCES public.workouts(id) ON DELETE SET NULL,
+  achieved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, exercise_key, record_type, weight_kg)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.personal_records ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own records
+CREATE POLICY "Users can view their own personal records"
+ON public.personal_records
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Users can insert their own records
+CREATE POLICY "Users can insert their own personal records"
+ON public.personal_records
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own records
+CREATE POLICY "Users can update their own personal records"
+ON public.personal_records
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Users can delete their own records
+CREATE POLICY "Users can delete their own personal records"
+ON public.personal_records
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_personal_records_updated_at
+BEFORE UPDATE ON public.personal_records
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
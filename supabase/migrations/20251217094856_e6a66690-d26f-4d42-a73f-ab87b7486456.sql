@@ -0,0 +1,111 @@
+-- Editing a workout can change its points more than once, so adjustments may repeat per workout
+DROP INDEX public.idx_points_transactions_source;
+CREATE UNIQUE INDEX idx_points_transactions_source
+ON public.points_transactions (reason, source_table, source_id)
+WHERE source_id IS NOT NULL AND reason <> 'workout_adjustment';
+
+-- Edits keep the workout's owner and date, and must still fit the gym's session rules.
+-- New workouts are still timestamped by the server. The overlap check ignores the workout
+-- being edited.
+CREATE OR REPLACE FUNCTION public.enforce_workout_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _gym public.gyms;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.user_id := OLD.user_id;
+    NEW.created_at := OLD.created_at;
+  ELSE
+    NEW.created_at := now();
+  END IF;
+
+  SELECT * INTO _gym FROM public.gyms WHERE id = public.get_user_gym_id(NEW.user_id);
+
+  IF _gym.id IS NOT NULL AND NEW.total_duration_minutes > _gym.max_workout_minutes THEN
+    RAISE EXCEPTION 'Workouts at % can be at most % minutes long', _gym.name, _gym.max_workout_minutes
+      USING HINT = 'workout_too_long';
+  END IF;
+
+  PERFORM 1 FROM public.profiles WHERE user_id = NEW.user_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.workouts w
+    WHERE w.user_id = NEW.user_id
+      AND w.id <> NEW.id
+      AND w.created_at <= NEW.created_at
+      AND w.created_at > NEW.created_at - make_interval(mins => GREATEST(NEW.total_duration_minutes, 1))
+  ) THEN
+    RAISE EXCEPTION 'This workout overlaps one you already logged'
+      USING HINT = 'workout_overlap';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER enforce_workout_rules ON public.workouts;
+CREATE TRIGGER enforce_workout_rules
+BEFORE INSERT OR UPDATE ON public.workouts
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_workout_rules();
+
+-- Edits are re-priced like new workouts, so a points_earned sent by the client never sticks
+DROP TRIGGER price_workout ON public.workouts;
+CREATE TRIGGER price_workout
+BEFORE INSERT OR UPDATE ON public.workouts
+FOR EACH ROW
+EXECUTE FUNCTION public.price_workout();
+
+-- Credit or debit the difference when an edit changes a workout's points
+CREATE OR REPLACE FUNCTION public.adjust_workout_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.points_earned <> OLD.points_earned THEN
+    PERFORM public.award_points(NEW.user_id, NEW.points_earned - OLD.points_earned, 'workout_adjustment', 'workouts', NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Fires on every edit: re-pricing can change points_earned without the client sending it
+CREATE TRIGGER on_workout_updated
+AFTER UPDATE ON public.workouts
+FOR EACH ROW
+EXECUTE FUNCTION public.adjust_workout_points();
+
+-- Take back whatever a deleted workout earned, including earlier adjustments
+CREATE OR REPLACE FUNCTION public.revoke_workout_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _earned integer;
+BEGIN
+  SELECT COALESCE(SUM(delta), 0)::int INTO _earned
+  FROM public.points_transactions
+  WHERE source_table = 'workouts'
+    AND source_id = OLD.id
+    AND reason IN ('workout', 'workout_adjustment');
+
+  IF _earned <> 0 THEN
+    PERFORM public.award_points(OLD.user_id, -_earned, 'workout_deleted', 'workouts', OLD.id);
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER on_workout_deleted
+AFTER DELETE ON public.workouts
+FOR EACH ROW
+EXECUTE FUNCTION public.revoke_workout_points();
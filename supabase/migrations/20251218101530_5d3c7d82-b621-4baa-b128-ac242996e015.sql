@@ -0,0 +1,66 @@
+-- Weekly visits, goal and workout totals for the signed-in member's last _weeks gym weeks,
+-- oldest first and including the running week. Weeks follow the gym's week_start and timezone.
+CREATE OR REPLACE FUNCTION public.get_my_weekly_progress(_weeks INTEGER DEFAULT 12)
+RETURNS TABLE (
+  week_start DATE,
+  visits INTEGER,
+  goal INTEGER,
+  workouts INTEGER,
+  calories INTEGER,
+  minutes INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _gym_id uuid := public.get_user_gym_id(auth.uid());
+  _timezone text;
+  _current_week date;
+BEGIN
+  IF _gym_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _weeks IS NULL OR _weeks < 1 OR _weeks > 52 THEN
+    RAISE EXCEPTION 'Weeks must be between 1 and 52';
+  END IF;
+
+  SELECT g.timezone INTO _timezone FROM public.gyms g WHERE g.id = _gym_id;
+  _current_week := public.gym_week_start(_gym_id, now());
+
+  RETURN QUERY
+  WITH weeks AS (
+    SELECT (_current_week - 7 * n)::date AS week_start
+    FROM generate_series(0, _weeks - 1) AS n
+  ),
+  workout_totals AS (
+    SELECT
+      w.week_start,
+      COUNT(wo.id)::int AS workouts,
+      COALESCE(SUM(wo.calories_burned), 0)::int AS calories,
+      COALESCE(SUM(wo.total_duration_minutes), 0)::int AS minutes
+    FROM weeks w
+    LEFT JOIN public.workouts wo
+      ON wo.user_id = _user_id
+      AND (wo.created_at AT TIME ZONE _timezone)::date >= w.week_start
+      AND (wo.created_at AT TIME ZONE _timezone)::date < w.week_start + 7
+    GROUP BY w.week_start
+  )
+  SELECT
+    w.week_start,
+    public.member_week_visits(_user_id, w.week_start),
+    public.member_weekly_goal(_user_id, w.week_start),
+    t.workouts,
+    t.calories,
+    t.minutes
+  FROM weeks w
+  JOIN workout_totals t ON t.week_start = w.week_start
+  ORDER BY w.week_start;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_weekly_progress(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_weekly_progress(INTEGER) TO authenticated;
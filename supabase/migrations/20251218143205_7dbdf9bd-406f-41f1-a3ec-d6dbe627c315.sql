@@ -0,0 +1,44 @@
+-- Optional body measurements for personalised calorie estimates. Kept out of profiles,
+-- which every signed-in member can read for the leaderboard.
+CREATE TABLE public.body_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  weight_kg NUMERIC(5,1) NOT NULL CHECK (weight_kg BETWEEN 25 AND 350),
+  birth_year INTEGER CHECK (birth_year BETWEEN 1900 AND 2100),
+  sex TEXT CHECK (sex IN ('female', 'male')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.body_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their own body profile
+CREATE POLICY "Users can view their own body profile"
+ON public.body_profiles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Members can create their own body profile
+CREATE POLICY "Users can insert their own body profile"
+ON public.body_profiles
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Members can update their own body profile
+CREATE POLICY "Users can update their own body profile"
+ON public.body_profiles
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Members can remove their own body profile
+CREATE POLICY "Users can delete their own body profile"
+ON public.body_profiles
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_body_profiles_updated_at
+BEFORE UPDATE ON public.body_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,389 @@
+-- Per-gym points rules. Every earning event (check-ins, workouts, weekly goal and streak
+-- bonuses) is priced from these server-side; the default rates match the previous fixed values.
+CREATE TABLE public.gym_points_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gym_id UUID NOT NULL UNIQUE REFERENCES public.gyms(id) ON DELETE CASCADE,
+  check_in_points INTEGER NOT NULL DEFAULT 50 CHECK (check_in_points BETWEEN 0 AND 1000),
+  points_per_calorie NUMERIC(5,3) NOT NULL DEFAULT 0.1 CHECK (points_per_calorie BETWEEN 0 AND 10),
+  -- Workout type -> multiplier on calorie points, e.g. {"hiit": 1.5}; unlisted types use 1
+  workout_type_multipliers JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(workout_type_multipliers) = 'object'),
+  goal_bonus_points INTEGER NOT NULL DEFAULT 100 CHECK (goal_bonus_points BETWEEN 0 AND 10000),
+  streak_bonus_points INTEGER NOT NULL DEFAULT 25 CHECK (streak_bonus_points BETWEEN 0 AND 10000),
+  streak_bonus_min_weeks INTEGER NOT NULL DEFAULT 2 CHECK (streak_bonus_min_weeks BETWEEN 1 AND 52),
+  -- Caps; NULL means unlimited. The defaults stop a single day from being farmed.
+  max_workout_points INTEGER DEFAULT 300 CHECK (max_workout_points > 0),
+  max_daily_points INTEGER DEFAULT 500 CHECK (max_daily_points > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.gym_points_rules ENABLE ROW LEVEL SECURITY;
+
+-- Members can see how points are earned at their gym
+CREATE POLICY "Members can view their gym points rules"
+ON public.gym_points_rules
+FOR SELECT
+USING (gym_id = get_user_gym_id(auth.uid()));
+
+-- Owners can view their gym's points rules
+CREATE POLICY "Owners can view their gym points rules"
+ON public.gym_points_rules
+FOR SELECT
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Owners can create their gym's points rules
+CREATE POLICY "Owners can insert their gym points rules"
+ON public.gym_points_rules
+FOR INSERT
+WITH CHECK (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Owners can change their gym's points rules
+CREATE POLICY "Owners can update their gym points rules"
+ON public.gym_points_rules
+FOR UPDATE
+USING (
+  gym_id IN (SELECT id FROM public.gyms WHERE owner_id = auth.uid())
+);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_gym_points_rules_updated_at
+BEFORE UPDATE ON public.gym_points_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Existing gyms start with the default rules
+INSERT INTO public.gym_points_rules (gym_id)
+SELECT id FROM public.gyms
+ON CONFLICT (gym_id) DO NOTHING;
+
+-- New gyms get the default rules too
+CREATE OR REPLACE FUNCTION public.create_default_points_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.gym_points_rules (gym_id) VALUES (NEW.id)
+  ON CONFLICT (gym_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_default_points_rules() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER on_gym_created_points_rules
+AFTER INSERT ON public.gyms
+FOR EACH ROW
+EXECUTE FUNCTION public.create_default_points_rules();
+
+-- _points reduced to what the member can still earn under the daily cap on the gym-local day
+-- of _at. Check-in and workout points count; _exclude_workout_id leaves out a workout being edited.
+CREATE OR REPLACE FUNCTION public.cap_daily_points(
+  _user_id UUID,
+  _gym_id UUID,
+  _max_daily_points INTEGER,
+  _points INTEGER,
+  _at TIMESTAMP WITH TIME ZONE,
+  _exclude_workout_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _timezone text;
+  _day_start timestamptz;
+  _earned integer;
+BEGIN
+  IF _max_daily_points IS NULL OR _points <= 0 THEN
+    RETURN GREATEST(_points, 0);
+  END IF;
+
+  SELECT timezone INTO _timezone FROM public.gyms WHERE id = _gym_id;
+  _day_start := date_trunc('day', _at AT TIME ZONE _timezone) AT TIME ZONE _timezone;
+
+  SELECT COALESCE(SUM(points), 0)::int INTO _earned
+  FROM (
+    SELECT points_awarded AS points
+    FROM public.check_ins
+    WHERE user_id = _user_id AND created_at >= _day_start AND created_at < _day_start + interval '1 day'
+    UNION ALL
+    SELECT points_earned
+    FROM public.workouts
+    WHERE user_id = _user_id AND created_at >= _day_start AND created_at < _day_start + interval '1 day'
+      AND id IS DISTINCT FROM _exclude_workout_id
+  ) earned;
+
+  RETURN GREATEST(LEAST(_points, _max_daily_points - _earned), 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cap_daily_points(UUID, UUID, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Workout points from calories, the type multiplier and the gym's caps. Members without a gym
+-- earn at the default rate.
+CREATE OR REPLACE FUNCTION public.compute_workout_points(
+  _user_id UUID,
+  _workout_id UUID,
+  _workout_type TEXT,
+  _calories INTEGER,
+  _at TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _gym_id uuid := public.get_user_gym_id(_user_id);
+  _rules public.gym_points_rules;
+  _points integer;
+BEGIN
+  SELECT * INTO _rules FROM public.gym_points_rules WHERE gym_id = _gym_id;
+
+  _points := round(
+    GREATEST(_calories, 0)
+    * COALESCE(_rules.points_per_calorie, 0.1)
+    * COALESCE((_rules.workout_type_multipliers ->> _workout_type)::numeric, 1)
+  );
+
+  IF _rules.max_workout_points IS NOT NULL THEN
+    _points := LEAST(_points, _rules.max_workout_points);
+  END IF;
+
+  IF _gym_id IS NULL THEN
+    RETURN _points;
+  END IF;
+
+  RETURN public.cap_daily_points(_user_id, _gym_id, _rules.max_daily_points, _points, _at, _workout_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_workout_points(UUID, UUID, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Workout points are priced by the gym's rules; whatever the client sends is replaced. The calories
+-- they are priced from are still bounded by the session length first. The daily cap is counted on
+-- the day the server logged the workout, never on a date the client sends.
+CREATE OR REPLACE FUNCTION public.price_workout()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _logged_at timestamptz := CASE WHEN TG_OP = 'UPDATE' THEN OLD.created_at ELSE now() END;
+BEGIN
+  NEW.calories_burned := public.plausible_workout_calories(NEW.calories_burned, NEW.total_duration_minutes);
+  NEW.points_earned := public.compute_workout_points(NEW.user_id, NEW.id, NEW.workout_type, NEW.calories_burned, _logged_at);
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.price_workout() FROM PUBLIC, anon, authenticated;
+
+-- Check-in points come from the gym's rules and count towards the daily cap
+CREATE OR REPLACE FUNCTION public.perform_check_in(
+  _user_id UUID,
+  _source TEXT,
+  _token TEXT DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _gym public.gyms;
+  _rules public.gym_points_rules;
+  _points integer;
+  _reason text;
+  _message text;
+  _distance integer;
+  _last_check_in timestamptz;
+  _retry_after timestamptz;
+  _earning_today integer;
+  _check_in public.check_ins;
+  _total_points integer;
+BEGIN
+  SELECT * INTO _gym FROM public.gyms WHERE id = public.get_user_gym_id(_user_id);
+  IF _gym.id IS NULL THEN
+    RAISE EXCEPTION 'Join a gym before checking in';
+  END IF;
+
+  IF _source NOT IN ('qr', 'manual', 'kiosk') THEN
+    RAISE EXCEPTION 'Unknown check-in source: %', _source;
+  END IF;
+
+  -- Serialize concurrent check-ins by the same member so the limits cannot be raced
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  IF _latitude IS NOT NULL AND _longitude IS NOT NULL AND _gym.latitude IS NOT NULL AND _gym.longitude IS NOT NULL THEN
+    _distance := round(public.distance_meters(_latitude, _longitude, _gym.latitude, _gym.longitude));
+  END IF;
+
+  SELECT MAX(created_at) INTO _last_check_in
+  FROM public.check_ins
+  WHERE user_id = _user_id;
+
+  SELECT COUNT(*)::int INTO _earning_today
+  FROM public.check_ins
+  WHERE user_id = _user_id
+    AND points_awarded > 0
+    AND created_at >= (date_trunc('day', now() AT TIME ZONE _gym.timezone) AT TIME ZONE _gym.timezone);
+
+  IF _source = 'qr' AND NOT public.verify_check_in_token(_token, _gym.id) THEN
+    _reason := 'invalid_token';
+    _message := 'This QR code is expired or belongs to another gym. Scan the code at your front desk.';
+  ELSIF _source = 'manual' AND NOT _gym.allow_manual_check_in THEN
+    _reason := 'manual_disabled';
+    _message := 'Scan the QR code at the front desk to check in';
+  ELSIF _source <> 'kiosk' AND _gym.latitude IS NOT NULL AND _gym.longitude IS NOT NULL AND _distance IS NULL THEN
+    _reason := 'location_required';
+    _message := 'Allow location access so we can confirm you are at the gym';
+  ELSIF _source <> 'kiosk' AND _distance - LEAST(COALESCE(_accuracy, 0), 100) > _gym.check_in_radius_m THEN
+    _reason := 'outside_geofence';
+    _message := format('You are about %s m from %s. Check in when you arrive.', _distance, _gym.name);
+  ELSIF _last_check_in > now() - make_interval(mins => _gym.check_in_cooldown_minutes) THEN
+    _reason := 'cooldown';
+    _retry_after := _last_check_in + make_interval(mins => _gym.check_in_cooldown_minutes);
+    _message := 'You checked in recently. Try again later.';
+  END IF;
+
+  IF _reason IS NOT NULL THEN
+    INSERT INTO public.check_in_rejections (user_id, gym_id, source, reason, latitude, longitude, accuracy_m, distance_m)
+    VALUES (_user_id, _gym.id, _source, _reason, _latitude, _longitude, _accuracy, _distance);
+
+    RETURN jsonb_build_object(
+      'status', 'rejected',
+      'reason', _reason,
+      'message', _message,
+      'distance_m', _distance,
+      'retry_after', _retry_after
+    );
+  END IF;
+
+  SELECT * INTO _rules FROM public.gym_points_rules WHERE gym_id = _gym.id;
+  -- Visits past the gym's daily limit are recorded but earn nothing
+  _points := CASE
+    WHEN _earning_today >= _gym.max_daily_check_ins THEN 0
+    ELSE public.cap_daily_points(_user_id, _gym.id, _rules.max_daily_points, _rules.check_in_points, now(), NULL)
+  END;
+
+  INSERT INTO public.check_ins (user_id, gym_id, source, points_awarded)
+  VALUES (_user_id, _gym.id, _source, _points)
+  RETURNING * INTO _check_in;
+
+  IF _points > 0 THEN
+    PERFORM public.award_points(_user_id, _points, 'check_in', 'check_ins', _check_in.id);
+  END IF;
+
+  SELECT total_points INTO _total_points
+  FROM public.profiles
+  WHERE user_id = _user_id;
+
+  RETURN jsonb_build_object(
+    'status', 'accepted',
+    'check_in_id', _check_in.id,
+    'checked_in_at', _check_in.created_at,
+    'points_awarded', _points,
+    'total_points', _total_points,
+    'point_check_ins_remaining_today', GREATEST(_gym.max_daily_check_ins - _earning_today - CASE WHEN _points > 0 THEN 1 ELSE 0 END, 0)
+  );
+END;
+$$;
+
+-- Weekly goal and streak bonuses come from the gym's rules
+CREATE OR REPLACE FUNCTION public.settle_member_weeks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rules public.gym_points_rules;
+  _member record;
+  _timezone text;
+  _last_week date;
+  _week date;
+  _goal integer;
+  _visits integer;
+  _goal_met boolean;
+  _streak integer;
+  _points_earned integer;
+  _member_week public.member_weeks;
+  _settled integer := 0;
+BEGIN
+  FOR _member IN
+    SELECT user_id, gym_id FROM public.profiles WHERE gym_id IS NOT NULL
+  LOOP
+    SELECT timezone INTO _timezone FROM public.gyms WHERE id = _member.gym_id;
+    SELECT * INTO _rules FROM public.gym_points_rules WHERE gym_id = _member.gym_id;
+    _last_week := public.gym_week_start(_member.gym_id, now()) - 7;
+
+    SELECT GREATEST(COALESCE(MAX(week_start) + 7, _last_week), _last_week - 21)
+    INTO _week
+    FROM public.member_weeks
+    WHERE user_id = _member.user_id;
+
+    WHILE _week <= _last_week LOOP
+      _goal := public.member_weekly_goal(_member.user_id, _week);
+      _visits := public.member_week_visits(_member.user_id, _week);
+      _goal_met := _goal IS NOT NULL AND _visits >= _goal;
+      _streak := CASE WHEN _goal_met THEN public.compute_member_streak(_member.user_id, _week) ELSE 0 END;
+
+      SELECT COALESCE(SUM(delta), 0)::int INTO _points_earned
+      FROM public.points_transactions
+      WHERE user_id = _member.user_id
+        AND reason IN ('check_in', 'workout')
+        AND created_at >= (_week::timestamp AT TIME ZONE _timezone)
+        AND created_at < ((_week + 7)::timestamp AT TIME ZONE _timezone);
+
+      INSERT INTO public.member_weeks (
+        user_id, gym_id, week_start, visits, goal, goal_met, streak,
+        points_earned, goal_bonus_points, streak_bonus_points
+      )
+      VALUES (
+        _member.user_id,
+        _member.gym_id,
+        _week,
+        _visits,
+        _goal,
+        _goal_met,
+        _streak,
+        _points_earned,
+        CASE WHEN _goal_met THEN _rules.goal_bonus_points ELSE 0 END,
+        CASE WHEN _streak >= _rules.streak_bonus_min_weeks THEN _rules.streak_bonus_points ELSE 0 END
+      )
+      ON CONFLICT (user_id, week_start) DO NOTHING
+      RETURNING * INTO _member_week;
+
+      IF _member_week.id IS NOT NULL THEN
+        IF _member_week.goal_bonus_points > 0 THEN
+          PERFORM public.award_points(_member.user_id, _member_week.goal_bonus_points, 'goal_bonus', 'member_weeks', _member_week.id);
+        END IF;
+        IF _member_week.streak_bonus_points > 0 THEN
+          PERFORM public.award_points(_member.user_id, _member_week.streak_bonus_points, 'streak_bonus', 'member_weeks', _member_week.id);
+        END IF;
+        _settled := _settled + 1;
+      END IF;
+
+      _member_week := NULL;
+      _week := _week + 7;
+    END LOOP;
+  END LOOP;
+
+  RETURN _settled;
+END;
+$$;
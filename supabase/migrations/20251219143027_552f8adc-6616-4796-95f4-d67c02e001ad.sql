@@ -0,0 +1,63 @@
+-- Canonical exercise library. Logged workouts, templates and AI suggestions link to these
+-- entries so the same movement aggregates under one name.
+CREATE TABLE public.exercises (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (char_length(name) BETWEEN 1 AND 80),
+  -- Alternative spellings, matched case-insensitively
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  -- Primary muscle group first
+  muscle_groups TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (muscle_groups <@ ARRAY['chest', 'back', 'legs', 'shoulders', 'arms', 'core', 'full_body']),
+  -- Every item needed to perform the exercise; empty means bodyweight
+  equipment TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (equipment <@ ARRAY['barbell', 'dumbbell', 'kettlebell', 'machine', 'cable', 'bench', 'box', 'mat', 'step', 'treadmill', 'stationary_bike', 'rowing_machine']),
+  modality TEXT NOT NULL CHECK (modality IN ('strength', 'cardio', 'hiit', 'mobility')),
+  -- Metabolic equivalent at moderate effort
+  met NUMERIC(4,1) NOT NULL CHECK (met > 0),
+  -- Strength moves are logged as sets; cardio and mobility by duration
+  tracking TEXT NOT NULL CHECK (tracking IN ('sets', 'duration')),
+  -- Workout types the exercise is suggested for
+  workout_types TEXT[] NOT NULL DEFAULT '{}',
+  default_sets INTEGER CHECK (default_sets > 0),
+  default_reps INTEGER CHECK (default_reps > 0),
+  default_duration_minutes INTEGER CHECK (default_duration_minutes > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.exercises ENABLE ROW LEVEL SECURITY;
+
+-- The library is reference data; anyone can read it, including the suggestion function
+CREATE POLICY "Anyone can view exercises"
+ON public.exercises
+FOR SELECT
+USING (true);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_exercises_updated_at
+BEFORE UPDATE ON public.exercises
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seeded from the suggest-exercises fallback lists
+INSERT INTO public.exercises
+  (name, aliases, muscle_groups, equipment, modality, met, tracking, workout_types, default_sets, default_reps, default_duration_minutes)
+VALUES
+  ('Bench Press', ARRAY['barbell bench press', 'flat bench press', 'flat bench', 'bench'], ARRAY['chest', 'shoulders', 'arms'], ARRAY['barbell', 'bench'], 'strength', 5.0, 'sets', ARRAY['weights'], 3, 10, NULL),
+  ('Squats', ARRAY['squat', 'back squat', 'barbell squat', 'barbell back squat'], ARRAY['legs', 'core'], ARRAY['barbell'], 'strength', 5.0, 'sets', ARRAY['weights'], 3, 12, NULL),
+  ('Deadlift', ARRAY['deadlifts', 'barbell deadlift', 'conventional deadlift'], ARRAY['back', 'legs'], ARRAY['barbell'], 'strength', 6.0, 'sets', ARRAY['weights'], 3, 8, NULL),
+  ('Shoulder Press', ARRAY['overhead press', 'military press', 'dumbbell shoulder press', 'ohp'], ARRAY['shoulders', 'arms'], ARRAY['dumbbell'], 'strength', 5.0, 'sets', ARRAY['weights'], 3, 10, NULL),
+  ('Treadmill Jog', ARRAY['treadmill', 'treadmill run', 'jogging', 'running', 'jog'], ARRAY['legs'], ARRAY['treadmill'], 'cardio', 7.0, 'duration', ARRAY['cardio'], NULL, NULL, 15),
+  ('Stationary Bike', ARRAY['exercise bike', 'bike', 'cycling', 'indoor cycling'], ARRAY['legs'], ARRAY['stationary_bike'], 'cardio', 6.8, 'duration', ARRAY['cardio'], NULL, NULL, 10),
+  ('Rowing Machine', ARRAY['rower', 'rowing', 'erg', 'indoor rowing'], ARRAY['back', 'legs', 'arms'], ARRAY['rowing_machine'], 'cardio', 7.0, 'duration', ARRAY['cardio'], NULL, NULL, 10),
+  ('Step Aerobics', ARRAY['step', 'step class', 'step workout'], ARRAY['legs'], ARRAY['step'], 'cardio', 7.5, 'duration', ARRAY['aerobics'], NULL, NULL, 20),
+  ('Dance Cardio', ARRAY['dance', 'dance aerobics', 'zumba', 'dance workout'], ARRAY['legs', 'core'], ARRAY[]::text[], 'cardio', 7.3, 'duration', ARRAY['aerobics'], NULL, NULL, 15),
+  ('Burpees', ARRAY['burpee'], ARRAY['full_body'], ARRAY[]::text[], 'hiit', 8.0, 'sets', ARRAY['hiit'], 4, 10, NULL),
+  ('Mountain Climbers', ARRAY['mountain climber'], ARRAY['core', 'shoulders'], ARRAY[]::text[], 'hiit', 8.0, 'sets', ARRAY['hiit'], 4, 20, NULL),
+  ('Box Jumps', ARRAY['box jump'], ARRAY['legs'], ARRAY['box'], 'hiit', 8.0, 'sets', ARRAY['hiit'], 4, 12, NULL),
+  ('Warm-up Ride', ARRAY['warm up ride', 'warmup ride', 'easy spin', 'warm-up spin'], ARRAY['legs'], ARRAY['stationary_bike'], 'cardio', 5.5, 'duration', ARRAY['spinning'], NULL, NULL, 5),
+  ('Hill Climb', ARRAY['hill climbs', 'seated climb', 'standing climb'], ARRAY['legs'], ARRAY['stationary_bike'], 'cardio', 8.5, 'duration', ARRAY['spinning'], NULL, NULL, 10),
+  ('Sprint Intervals', ARRAY['sprints', 'sprint', 'bike sprints', 'intervals'], ARRAY['legs'], ARRAY['stationary_bike'], 'hiit', 10.0, 'duration', ARRAY['spinning'], NULL, NULL, 10),
+  ('Stretching', ARRAY['stretch', 'static stretching', 'cool down', 'cooldown'], ARRAY['full_body'], ARRAY[]::text[], 'mobility', 2.3, 'duration', ARRAY['other'], NULL, NULL, 10),
+  ('Yoga Flow', ARRAY['yoga', 'vinyasa', 'vinyasa flow'], ARRAY['core', 'full_body'], ARRAY['mat'], 'mobility', 3.0, 'duration', ARRAY['other'], NULL, NULL, 15);
@@ -0,0 +1,6 @@
+-- Equipment the gym owns, using the same vocabulary as exercises.equipment.
+-- NULL means the owner has not listed it, so suggestions are not restricted; an empty
+-- array means the gym is bodyweight only.
+ALTER TABLE public.gyms
+  ADD COLUMN equipment TEXT[]
+    CHECK (equipment <@ ARRAY['barbell', 'dumbbell', 'kettlebell', 'machine', 'cable', 'bench', 'box', 'mat', 'step', 'treadmill', 'stationary_bike', 'rowing_machine']);
@@ -0,0 +1,47 @@
+-- Training background used to tailor exercise suggestions. Like body_profiles it is kept
+-- out of profiles, since injuries are health information only the member should see.
+CREATE TABLE public.training_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  experience_level TEXT NOT NULL DEFAULT 'beginner'
+    CHECK (experience_level IN ('beginner', 'intermediate', 'advanced')),
+  goals TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (goals <@ ARRAY['strength', 'muscle', 'endurance', 'weight_loss', 'mobility', 'general_fitness']),
+  -- Free text, e.g. "left knee, avoid jumping"
+  injuries TEXT CHECK (char_length(injuries) <= 300),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.training_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their own training profile
+CREATE POLICY "Users can view their own training profile"
+ON public.training_profiles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Members can create their own training profile
+CREATE POLICY "Users can insert their own training profile"
+ON public.training_profiles
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Members can update their own training profile
+CREATE POLICY "Users can update their own training profile"
+ON public.training_profiles
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Members can remove their own training profile
+CREATE POLICY "Users can delete their own training profile"
+ON public.training_profiles
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_training_profiles_updated_at
+BEFORE UPDATE ON public.training_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
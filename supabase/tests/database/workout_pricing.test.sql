@@ -0,0 +1,67 @@
+-- Workouts are priced by the server under the member's own role. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-00000000a001', 'owner@example.com', '{"name": "Owner"}'),
+  ('00000000-0000-0000-0000-00000000b001', 'member@example.com', '{"name": "Member"}');
+
+INSERT INTO public.gyms (id, owner_id, name)
+VALUES ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000a001', 'Test Gym');
+
+UPDATE public.profiles
+SET gym_id = '00000000-0000-0000-0000-00000000c001', weekly_goal = 3
+WHERE user_id = '00000000-0000-0000-0000-00000000b001';
+
+UPDATE public.gym_points_rules
+SET points_per_calorie = 0.1, max_workout_points = 300, max_daily_points = 500
+WHERE gym_id = '00000000-0000-0000-0000-00000000c001';
+
+-- 450 of today's 500 points are already earned
+INSERT INTO public.check_ins (user_id, gym_id, points_awarded)
+VALUES ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000c001', 450);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000b001", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$INSERT INTO public.workouts (id, user_id, workout_type, total_duration_minutes, calories_burned, points_earned, created_at)
+    VALUES ('00000000-0000-0000-0000-00000000d001', '00000000-0000-0000-0000-00000000b001', 'weights', 60, 1000, 9999,
+            now() - interval '3 days')$$,
+  'a member can log their own workout'
+);
+
+SELECT is(
+  (SELECT created_at FROM public.workouts WHERE id = '00000000-0000-0000-0000-00000000d001'),
+  now(),
+  'the workout is dated when the server logged it'
+);
+
+SELECT is(
+  (SELECT points_earned FROM public.workouts WHERE id = '00000000-0000-0000-0000-00000000d001'),
+  50,
+  'a backdated workout shares today''s daily cap'
+);
+
+SELECT lives_ok(
+  $$UPDATE public.workouts SET calories_burned = 200, points_earned = 9999
+    WHERE id = '00000000-0000-0000-0000-00000000d001'$$,
+  'a member can edit their own workout'
+);
+
+SELECT is(
+  (SELECT points_earned FROM public.workouts WHERE id = '00000000-0000-0000-0000-00000000d001'),
+  20,
+  'an edit is re-priced by the server'
+);
+
+SELECT is(
+  (SELECT total_points FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-00000000b001'),
+  20,
+  'the ledger follows the re-priced points'
+);
+
+SELECT * FROM finish();
+ROLLBACK;